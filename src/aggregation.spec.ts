@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DashboardQuery, QUESTION_SLOTS, answerRef, answerViews, buildTopicTree, countField, parseAnswerRef } from './aggregation';
+import type { AnalysisResult, ResponseAnalysis } from './gemini.service';
+
+const analysis = (sentiment: ResponseAnalysis['sentiment'], topics: string[]): ResponseAnalysis =>
+  ({ sentiment, sentiment_score: 0, intent: 'feedback', emotions: [], topics, explanation: '', confidence: 80, redacted_excerpt: '' });
+
+const query = (changes: Partial<DashboardQuery>): DashboardQuery => ({
+  filters: {}, dateStart: null, dateEnd: null, language: null, dimensions: [], selectedTopic: null,
+  trendGroupBy: 'sentiment', trendPeriod: 'month', includeTrend: false, questions: [], question: null, ...changes,
+});
+
+describe('answer refs', () => {
+  it('round-trip a row and question index', () => {
+    expect(answerRef(5, 2)).toBe(5 * QUESTION_SLOTS + 2);
+    expect(parseAnswerRef(answerRef(5, 2))).toEqual({ rowId: 5, questionIndex: 2 });
+    expect(parseAnswerRef(answerRef(1, QUESTION_SLOTS - 1))).toEqual({ rowId: 1, questionIndex: QUESTION_SLOTS - 1 });
+  });
+});
+
+describe('answerViews', () => {
+  const results: AnalysisResult[] = [
+    { rowId: 2, analysis: analysis('positive', ['Support']), analyses: { why: { analysis: analysis('positive', ['Support']) }, improve: { analysis: analysis('negative', ['Pricing']) } } },
+    { rowId: 3, analysis: analysis('negative', ['Delivery']), analyses: { why: { analysis: analysis('negative', ['Delivery']) } } },
+  ];
+
+  it('gives one view per analyzed answer, addressed by ref', () => {
+    const views = answerViews(results, query({ questions: ['why', 'improve'] }));
+    expect(views.map(view => [view.ref, view.question, view.analysis!.sentiment])).toEqual([
+      [answerRef(2, 0), 'why', 'positive'],
+      [answerRef(2, 1), 'improve', 'negative'],
+      [answerRef(3, 0), 'why', 'negative'],
+    ]);
+  });
+
+  it('pivots to one question', () => {
+    const views = answerViews(results, query({ questions: ['why', 'improve'], question: 'improve' }));
+    expect(views.map(view => view.ref)).toEqual([answerRef(2, 1)]);
+    expect(countField(views, 'topic')).toEqual([['Pricing', 1]]);
+  });
+});
+
+describe('buildTopicTree', () => {
+  it('nests sub-topics and sorts main topics by count', () => {
+    const view = (ref: number, topics: string[]) => ({ rowId: ref, ref, analysis: analysis('neutral', topics) });
+    const tree = buildTopicTree([view(1, ['Pricing']), view(2, ['Delivery', 'Late']), view(3, ['Delivery', 'Damaged']), view(4, ['Delivery', 'Late'])]);
+    expect(tree.map(topic => [topic.name, topic.count])).toEqual([['Delivery', 3], ['Pricing', 1]]);
+    expect(tree[0].subTopics).toEqual([
+      { name: 'Late', count: 2, refs: [2, 4], subTopics: [] },
+      { name: 'Damaged', count: 1, refs: [3], subTopics: [] },
+    ]);
+  });
+});
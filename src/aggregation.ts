@@ -0,0 +1,326 @@
+import { timeDay, timeMonth, timeWeek } from 'd3';
+import type { AnalysisResult, QuestionAnalysis } from './gemini.service';
+import type { ExclusionReason } from './preprocessing';
+import { UNKNOWN_LANGUAGE } from './language';
+
+export type TrendGroupBy = 'sentiment' | 'intent' | 'topics';
+export type TrendPeriod = 'day' | 'week' | 'month';
+
+/** Everything the dashboard's filters and chart options contribute to the aggregates. */
+export interface DashboardQuery {
+  filters: { [dimension: string]: string };
+  dateStart: Date | null;
+  dateEnd: Date | null;
+  language: string | null; // Detected language code to show, or null for all languages
+  dimensions: string[];
+  selectedTopic: string | null;
+  trendGroupBy: TrendGroupBy;
+  trendPeriod: TrendPeriod;
+  includeTrend: boolean;
+  questions: string[]; // Mapped text columns; the first one is the primary question
+  question: string | null; // Pivot to one question, or null for every answer combined
+}
+
+/**
+ * Answers are addressed as rowId * QUESTION_SLOTS + the question's column
+ * index, so a single answer can cross the worker boundary as a plain number.
+ */
+export const QUESTION_SLOTS = 64;
+
+export const answerRef = (rowId: number, questionIndex: number): number => rowId * QUESTION_SLOTS + questionIndex;
+
+export const parseAnswerRef = (ref: number) => ({ rowId: Math.floor(ref / QUESTION_SLOTS), questionIndex: ref % QUESTION_SLOTS });
+
+/** Just the per-question fields of a result or outcome, with every key present so it can overwrite another. */
+export const pickOutcome = ({ analysis, error, excluded, duplicateOf, aiAnalysis, flagged, reviewedAt }: QuestionAnalysis): QuestionAnalysis =>
+  ({ analysis, error, excluded, duplicateOf, aiAnalysis, flagged, reviewedAt });
+
+/** A result's outcome for one question; results saved before multi-question runs only answer the primary one. */
+export const questionOutcome = (result: AnalysisResult, question: string, primary: string): QuestionAnalysis | undefined =>
+  result.analyses ? result.analyses[question] : question === primary ? result : undefined;
+
+/** The result as seen through one question, or null if that answer has not been analyzed. */
+export const viewForQuestion = (result: AnalysisResult, questions: string[], questionIndex: number): AnalysisResult | null => {
+  const question = questions[questionIndex];
+  const outcome = questionOutcome(result, question, questions[0]);
+  if (!outcome) return null;
+  if (questions.length <= 1) return result;
+  return { ...result, ...pickOutcome(outcome), question };
+}
+
+type AnswerView = AnalysisResult & { ref: number };
+
+/** One entry per analyzed answer in the questions the query covers. */
+export const answerViews = (results: AnalysisResult[], query: DashboardQuery): AnswerView[] => {
+  const questions = query.questions.length > 0 ? query.questions : [''];
+  const indexes = query.question ? [questions.indexOf(query.question)].filter(i => i >= 0) : questions.map((_, i) => i);
+  const views: AnswerView[] = [];
+  results.forEach(result => indexes.forEach(index => {
+    const view = viewForQuestion(result, questions, index);
+    if (view) views.push({ ...view, ref: answerRef(result.rowId, index) });
+  }));
+  return views;
+}
+
+/** Topic tree node that refers to answers by ref so it can cross the worker boundary cheaply. */
+export interface TopicSummary {
+  name: string;
+  count: number;
+  refs: number[];
+  subTopics: TopicSummary[];
+}
+
+export interface TrendData {
+  series: { name: string; values: { date: Date; value: number }[] }[];
+  dates: Date[];
+  keys: string[];
+  stackedData: { [key: string]: any }[];
+  totals: number[]; // Answers per date; differs from the sum of the series when an answer has several values
+}
+
+export type Counts = [string, number][];
+
+export interface DashboardAggregates {
+  // null when a single question is mapped, no filter is active and nothing was excluded, meaning every result is shown.
+  filteredRefs: number[] | null;
+  totalResponses: number;
+  sentimentCounts: Counts;
+  intentCounts: Counts;
+  topicChartData: Counts;
+  topicTree: TopicSummary[];
+  intentRefs: { [intent: string]: number[] };
+  availableFilters: { [dimension: string]: string[] };
+  availableLanguages: string[];
+  minDate: Date | null;
+  maxDate: Date | null;
+  trendData: TrendData | null;
+  // Answers skipped by pre-processing, and how many answers reused another answer's analysis.
+  excludedRefs: { [reason in ExclusionReason]?: number[] };
+  sharedDuplicateCount: number;
+}
+
+export const EMPTY_AGGREGATES: DashboardAggregates = {
+  filteredRefs: null,
+  totalResponses: 0,
+  sentimentCounts: [],
+  intentCounts: [],
+  topicChartData: [],
+  topicTree: [],
+  intentRefs: {},
+  availableFilters: {},
+  availableLanguages: [],
+  minDate: null,
+  maxDate: null,
+  trendData: null,
+  excludedRefs: {},
+  sharedDuplicateCount: 0,
+};
+
+const sortCounts = (counts: Map<string, number>): Counts =>
+  Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+
+/**
+ * An answer's values for a field: `topic` is the main topic, `subTopic` the
+ * second level and `topics` every level; emotions can have several. Any
+ * other field is read as a dimension column.
+ */
+export const fieldValues = (r: AnalysisResult, field: string): string[] => {
+  const analysis = r.analysis;
+  switch (field) {
+    case 'sentiment': return analysis?.sentiment ? [analysis.sentiment] : [];
+    case 'intent': return analysis?.intent ? [analysis.intent] : [];
+    case 'topic': return analysis?.topics[0] ? [analysis.topics[0]] : [];
+    case 'subTopic': return analysis?.topics[1] ? [analysis.topics[1]] : [];
+    case 'topics': return (analysis?.topics ?? []).filter(Boolean);
+    case 'emotion': return (analysis?.emotions ?? []).filter(Boolean);
+    case 'language': return analysis ? [languageOf(r)] : [];
+    case 'question': return r.question ? [r.question] : [];
+    default: return r[field] ? [String(r[field])] : [];
+  }
+}
+
+/** Whether an answer falls between two dates; undated answers never match a bounded range. */
+export const inDateRange = (r: AnalysisResult, start: Date | null, end: Date | null): boolean => {
+  if (start && (!r.date || r.date < start)) return false;
+  if (end && (!r.date || r.date > end)) return false;
+  return true;
+}
+
+/** Answers matching the dashboard filters, without pre-processing exclusions; null if that is every answer. */
+export const filterResults = (results: AnswerView[], query: DashboardQuery): AnswerView[] | null => {
+  const activeFilters = query.filters;
+  const filterKeys = Object.keys(activeFilters).filter(key => activeFilters[key] && activeFilters[key] !== 'all');
+  const { dateStart, dateEnd, language } = query;
+  if (filterKeys.length === 0 && !dateStart && !dateEnd && !language && !results.some(r => r.excluded)) return null;
+
+  return results.filter(r => {
+    if (r.excluded) return false;
+    if (language && languageOf(r) !== language) return false;
+    if (!filterKeys.every(key => r[key] === activeFilters[key])) return false;
+    return inDateRange(r, dateStart, dateEnd);
+  });
+}
+
+const languageOf = (r: AnalysisResult): string => r.analysis?.language || UNKNOWN_LANGUAGE;
+
+/** Detected languages of the classified answers, most common first. */
+export const collectLanguages = (results: AnalysisResult[]): string[] => {
+  const counts = new Map<string, number>();
+  results.forEach(r => {
+    if (r.analysis) increment(counts, languageOf(r));
+  });
+  return sortCounts(counts).map(([language]) => language);
+}
+
+/** Answers per value of a field (see fieldValues), most common first. */
+export const countField = (results: AnalysisResult[], field: string): Counts => {
+  const counts = new Map<string, number>();
+  results.forEach(r => fieldValues(r, field).forEach(value => increment(counts, value)));
+  return sortCounts(counts);
+}
+
+/** Top ten main topics, or the sub-topics of `selectedTopic`, in ascending order for the bar chart. */
+export const topicChartCounts = (results: AnalysisResult[], selectedTopic: string | null): Counts => {
+  const counts = new Map<string, number>();
+  results.forEach(r => {
+    const topics = r.analysis?.topics;
+    if (!topics || topics.length === 0) return;
+    if (!selectedTopic) increment(counts, topics[0]);
+    else if (topics[0] === selectedTopic && topics.length > 1) increment(counts, topics[1]);
+  });
+  return sortCounts(counts).slice(0, 10).reverse();
+}
+
+export const buildTopicTree = (results: AnswerView[]): TopicSummary[] => {
+  const mainTopics = new Map<string, TopicSummary>();
+  results.forEach(r => {
+    const topics = r.analysis?.topics;
+    if (!topics || topics.length === 0) return;
+    let main = mainTopics.get(topics[0]);
+    if (!main) {
+      main = { name: topics[0], count: 0, refs: [], subTopics: [] };
+      mainTopics.set(topics[0], main);
+    }
+    main.count++;
+    main.refs.push(r.ref);
+    if (topics.length > 1) {
+      let sub = main.subTopics.find(s => s.name === topics[1]);
+      if (!sub) {
+        sub = { name: topics[1], count: 0, refs: [], subTopics: [] };
+        main.subTopics.push(sub);
+      }
+      sub.count++;
+      sub.refs.push(r.ref);
+    }
+  });
+  return Array.from(mainTopics.values()).sort((a, b) => b.count - a.count);
+}
+
+export const groupRefsByIntent = (results: AnswerView[]): { [intent: string]: number[] } => {
+  const groups: { [intent: string]: number[] } = {};
+  results.forEach(r => {
+    const intent = r.analysis?.intent;
+    if (intent) (groups[intent] ||= []).push(r.ref);
+  });
+  return groups;
+}
+
+/** Distinct values of each dimension column across all results, for the filter dropdowns. */
+export const collectFilterOptions = (results: AnalysisResult[], dimensions: string[]): { [dimension: string]: string[] } => {
+  const options: { [dimension: string]: string[] } = {};
+  dimensions.forEach(dim => {
+    const values = new Set<string>();
+    results.forEach(r => {
+      if (r[dim]) values.add(r[dim]);
+    });
+    options[dim] = Array.from(values).sort();
+  });
+  return options;
+}
+
+export const dateRange = (results: AnalysisResult[]): { minDate: Date | null; maxDate: Date | null } => {
+  let min = Infinity;
+  let max = -Infinity;
+  results.forEach(r => {
+    const time = r.date?.getTime();
+    if (time === undefined || isNaN(time)) return;
+    if (time < min) min = time;
+    if (time > max) max = time;
+  });
+  return min === Infinity ? { minDate: null, maxDate: null } : { minDate: new Date(min), maxDate: new Date(max) };
+}
+
+/**
+ * Counts per period of the classified, dated answers for each value of a
+ * field (a TrendGroupBy on the dashboard; see fieldValues), shaped for both
+ * line and stacked charts.
+ */
+export const buildTrendData = (results: AnalysisResult[], groupBy: TrendGroupBy | string, period: TrendPeriod): TrendData | null => {
+  const dated = results.filter((r): r is AnalysisResult & { date: Date } => !!r.date && !!r.analysis);
+  if (dated.length === 0) return null;
+
+  const interval = { day: timeDay, week: timeWeek, month: timeMonth }[period];
+  const keySet = new Set<string>();
+  const countsByTime = new Map<number, Map<string, number>>();
+  const totalsByTime = new Map<number, number>();
+  dated.forEach(r => {
+    const time = interval.floor(r.date).getTime();
+    let counts = countsByTime.get(time);
+    if (!counts) {
+      counts = new Map();
+      countsByTime.set(time, counts);
+    }
+    totalsByTime.set(time, (totalsByTime.get(time) || 0) + 1);
+    fieldValues(r, groupBy).forEach(value => {
+      keySet.add(value);
+      increment(counts!, value);
+    });
+  });
+
+  const keys = Array.from(keySet).sort();
+  const times = Array.from(countsByTime.keys()).sort((a, b) => a - b);
+  const dates = times.map(time => new Date(time));
+  const stackedData = times.map((time, i) => {
+    const counts = countsByTime.get(time)!;
+    const entry: { [key: string]: any } = { date: dates[i] };
+    keys.forEach(key => { entry[key] = counts.get(key) || 0; });
+    return entry;
+  });
+  const series = keys.map(key => ({
+    name: key,
+    values: times.map((time, i) => ({ date: dates[i], value: countsByTime.get(time)!.get(key) || 0 })),
+  }));
+  return { series, dates, keys, stackedData, totals: times.map(time => totalsByTime.get(time)!) };
+}
+
+export const collectExclusions = (results: AnswerView[]) => {
+  const excludedRefs: { [reason in ExclusionReason]?: number[] } = {};
+  let sharedDuplicateCount = 0;
+  results.forEach(r => {
+    if (r.excluded) (excludedRefs[r.excluded] ||= []).push(r.ref);
+    if (r.duplicateOf !== undefined) sharedDuplicateCount++;
+  });
+  return { excludedRefs, sharedDuplicateCount };
+}
+
+export const aggregateResults = (results: AnalysisResult[], query: DashboardQuery): DashboardAggregates => {
+  const views = answerViews(results, query);
+  const filtered = filterResults(views, query);
+  const visible = filtered || views;
+  return {
+    filteredRefs: filtered || query.questions.length > 1 ? visible.map(r => r.ref) : null,
+    totalResponses: visible.length,
+    sentimentCounts: countField(visible, 'sentiment'),
+    intentCounts: countField(visible, 'intent'),
+    topicChartData: topicChartCounts(visible, query.selectedTopic),
+    topicTree: buildTopicTree(visible),
+    intentRefs: groupRefsByIntent(visible),
+    availableFilters: collectFilterOptions(results, query.dimensions),
+    availableLanguages: collectLanguages(views),
+    ...dateRange(results),
+    trendData: query.includeTrend ? buildTrendData(visible, query.trendGroupBy, query.trendPeriod) : null,
+    ...collectExclusions(views),
+  };
+}
@@ -0,0 +1,63 @@
+import { Component, ChangeDetectionStrategy, computed, input, linkedSignal, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AnalysisCorrection, EMOTIONS, INTENTS, ResponseAnalysis, SENTIMENTS } from './gemini.service';
+import { Taxonomy } from './taxonomy';
+
+/** Form for correcting one answer's sentiment, intent, emotions and topics. */
+@Component({
+  selector: 'app-analysis-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './analysis-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AnalysisEditorComponent {
+  analysis = input.required<ResponseAnalysis>();
+  taxonomy = input.required<Taxonomy>();
+  saved = output<AnalysisCorrection>();
+  cancelled = output<void>();
+
+  readonly sentiments = SENTIMENTS;
+  readonly intents = INTENTS;
+  readonly emotions = EMOTIONS;
+
+  // Starts over from the input whenever a different analysis is being edited.
+  draft = linkedSignal<AnalysisCorrection>(() => {
+    const { sentiment, intent, emotions, topics } = this.analysis();
+    return { sentiment, intent, emotions: [...emotions], topics: [...topics] };
+  });
+
+  // Keeps a topic that is no longer in the taxonomy selectable, so opening the editor doesn't change it.
+  mainTopics = computed(() => {
+    const names = this.taxonomy().topics.map(t => t.name);
+    const current = this.draft().topics[0];
+    return current && !names.includes(current) ? [current, ...names] : names;
+  });
+  subTopics = computed(() => {
+    const [main, sub] = this.draft().topics;
+    const names = this.taxonomy().topics.find(t => t.name === main)?.subTopics.map(s => s.name) || [];
+    return sub && !names.includes(sub) ? [sub, ...names] : names;
+  });
+
+  private valueOf = (event: Event) => (event.target as HTMLSelectElement).value;
+
+  setSentiment = (event: Event) =>
+    this.draft.update(d => ({ ...d, sentiment: this.valueOf(event) as AnalysisCorrection['sentiment'] }));
+
+  setIntent = (event: Event) =>
+    this.draft.update(d => ({ ...d, intent: this.valueOf(event) as AnalysisCorrection['intent'] }));
+
+  toggleEmotion = (emotion: string) => this.draft.update(d => ({
+    ...d,
+    emotions: d.emotions.includes(emotion) ? d.emotions.filter(e => e !== emotion) : [...d.emotions, emotion],
+  }));
+
+  setMainTopic = (event: Event) => this.draft.update(d => ({ ...d, topics: [this.valueOf(event)] }));
+
+  setSubTopic = (event: Event) => {
+    const sub = this.valueOf(event);
+    this.draft.update(d => ({ ...d, topics: sub ? [d.topics[0], sub] : [d.topics[0]] }));
+  }
+
+  save = () => this.saved.emit(this.draft());
+}
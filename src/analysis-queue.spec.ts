@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisQueue, AnalysisQueueOptions, DEFAULT_QUEUE_OPTIONS } from './analysis-queue';
+import { TransientApiError } from './api-errors';
+
+const options = (changes: Partial<AnalysisQueueOptions> = {}): AnalysisQueueOptions =>
+  ({ ...DEFAULT_QUEUE_OPTIONS, requestsPerMinute: 60_000, tokensPerMinute: 10_000_000, baseBackoffMs: 1, maxBackoffMs: 5, ...changes });
+
+const tick = (ms = 5) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** A worker that records how many calls overlap. */
+const tracking = () => {
+  const stats = { active: 0, peak: 0, done: [] as number[] };
+  const work = async (item: number) => {
+    stats.active++;
+    stats.peak = Math.max(stats.peak, stats.active);
+    await tick();
+    stats.active--;
+    stats.done.push(item);
+  };
+  return { stats, work };
+};
+
+afterEach(() => vi.useRealTimers());
+
+describe('AnalysisQueue', () => {
+  it('runs every item with at most `concurrency` in flight', async () => {
+    const { stats, work } = tracking();
+    await new AnalysisQueue<number>(options({ concurrency: 3 }), () => 1).run([1, 2, 3, 4, 5, 6, 7], work);
+    expect(stats.done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(stats.peak).toBe(3);
+  });
+
+  it('retries transient errors and reports permanent ones', async () => {
+    const attempts = new Map<string, number>();
+    const onRetry = vi.fn();
+    const onFailure = vi.fn();
+    await new AnalysisQueue<string>(options({ maxRetries: 2 }), () => 1).run(['flaky', 'broken', 'throttled'], async item => {
+      const attempt = (attempts.get(item) || 0) + 1;
+      attempts.set(item, attempt);
+      if (item === 'flaky' && attempt === 1) throw new Error('503 UNAVAILABLE');
+      if (item === 'broken') throw new Error('Invalid request');
+      if (item === 'throttled') throw new TransientApiError('Too many requests', 429);
+    }, { onRetry, onFailure });
+
+    expect(attempts).toEqual(new Map([['flaky', 2], ['broken', 1], ['throttled', 3]]));
+    expect(onRetry.mock.calls.map(([item, attempt]) => [item, attempt])).toEqual(expect.arrayContaining([['flaky', 1], ['throttled', 1], ['throttled', 2]]));
+    expect(onFailure.mock.calls.map(([item]) => item).sort()).toEqual(['broken', 'throttled']);
+  });
+
+  it('runs the items a worker returns, using idle workers', async () => {
+    const { stats, work } = tracking();
+    // One batch of eight that has to be split down to single items.
+    await new AnalysisQueue<number[]>(options({ concurrency: 4 }), () => 1).run([[1, 2, 3, 4, 5, 6, 7, 8]], async batch => {
+      await work(batch.length);
+      if (batch.length > 1) return [batch.slice(0, batch.length / 2), batch.slice(batch.length / 2)];
+    });
+    expect(stats.done.filter(size => size === 1)).toHaveLength(8);
+    expect(stats.peak).toBe(4);
+  });
+
+  it('waits for the request budget once it is spent', async () => {
+    vi.useFakeTimers();
+    const done: number[] = [];
+    const run = new AnalysisQueue<number>(options({ concurrency: 1, requestsPerMinute: 2 }), () => 1).run([1, 2, 3], async item => {
+      done.push(item);
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(done).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(30_000);
+    await run;
+    expect(done).toEqual([1, 2, 3]);
+  });
+
+  it('drops queued items once cancelled', async () => {
+    const queue = new AnalysisQueue<number>(options({ concurrency: 1 }), () => 1);
+    const done: number[] = [];
+    await queue.run([1, 2, 3], async item => {
+      done.push(item);
+      queue.cancel();
+    });
+    expect(done).toEqual([1]);
+    expect(queue.isCancelled).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { TransientApiError, asTransientError } from './api-errors';
+
+export interface AnalysisQueueOptions {
+  concurrency: number;       // Max requests in flight at once
+  requestsPerMinute: number; // RPM budget for the model
+  tokensPerMinute: number;   // TPM budget for the model
+  maxRetries: number;        // Attempts per item before the error is kept
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+// Defaults sized for the Gemini free tier; paid tiers can raise RPM/TPM considerably.
+export const DEFAULT_QUEUE_OPTIONS: AnalysisQueueOptions = {
+  concurrency: 4,
+  requestsPerMinute: 60,
+  tokensPerMinute: 250_000,
+  maxRetries: 6,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 60_000,
+};
+
+export interface QueueCallbacks<T> {
+  onRetry?: (item: T, attempt: number, delayMs: number, error: TransientApiError) => void;
+  onFailure?: (item: T, error: any) => void;
+}
+
+/**
+ * Continuously refilling budget. `take` reserves the requested amount and
+ * returns how long the caller must wait before the reservation is covered.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private readonly refillPerMs: number;
+
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+    this.refillPerMs = capacity / 60_000;
+  }
+
+  take(amount: number): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+    // Never ask for more than the bucket can ever hold, or the item would wait forever.
+    this.tokens -= Math.min(amount, this.capacity);
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.refillPerMs);
+  }
+}
+
+/**
+ * Runs items through an async worker with bounded concurrency, an RPM/TPM
+ * token bucket and exponential backoff. Workers signal a retryable failure by
+ * throwing a TransientApiError (or an error `asTransientError` recognizes);
+ * such items go to the back of the queue. A retry-after from the API pauses
+ * every worker, not just the one that was throttled.
+ *
+ * `pause` lets in-flight requests finish but starts no new ones; `cancel`
+ * aborts in-flight requests through the AbortSignal handed to the worker and
+ * drops everything still queued.
+ */
+export class AnalysisQueue<T> {
+  private readonly requestBucket: TokenBucket;
+  private readonly tokenBucket: TokenBucket;
+  private readonly abortController = new AbortController();
+  private cooldownUntil = 0;
+  private paused = false;
+
+  constructor(private readonly options: AnalysisQueueOptions, private readonly estimateTokens: (item: T) => number) {
+    this.requestBucket = new TokenBucket(Math.max(1, options.requestsPerMinute));
+    this.tokenBucket = new TokenBucket(Math.max(1, options.tokensPerMinute));
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  pause = () => { this.paused = true; }
+  resume = () => { this.paused = false; }
+  cancel = () => {
+    this.paused = false;
+    this.abortController.abort();
+  }
+
+  /** Resolves after `ms`, or immediately once the queue is cancelled. */
+  private delay = (ms: number) => new Promise<void>(res => {
+    const signal = this.abortController.signal;
+    if (signal.aborted) return res();
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      res();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      res();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  private backoffDelay = (attempt: number, retryAfterMs?: number): number => {
+    const exponential = Math.min(this.options.maxBackoffMs, this.options.baseBackoffMs * 2 ** (attempt - 1));
+    // Full jitter keeps parallel workers from retrying in lockstep.
+    const jittered = Math.random() * exponential;
+    return Math.max(jittered, retryAfterMs ?? 0);
+  }
+
+  private acquire = async (item: T) => {
+    const waitMs = Math.max(
+      this.requestBucket.take(1),
+      this.tokenBucket.take(this.estimateTokens(item)),
+      this.cooldownUntil - Date.now(),
+    );
+    if (waitMs > 0) await this.delay(waitMs);
+  }
+
+  /** Items a worker returns are queued as new items, e.g. the parts of a batch that has to be split. */
+  run = async (items: T[], worker: (item: T, signal: AbortSignal) => Promise<T[] | void>, callbacks: QueueCallbacks<T> = {}) => {
+    const pending = items.map(item => ({ item, attempt: 0 }));
+    // Retries waiting out their backoff; the queue is only done once these are back in `pending`.
+    let backingOff = 0;
+    const signal = this.abortController.signal;
+
+    const runWorker = async () => {
+      while (!signal.aborted && (pending.length > 0 || backingOff > 0)) {
+        if (this.paused) {
+          await this.delay(200);
+          continue;
+        }
+        const entry = pending.shift();
+        if (!entry) {
+          await this.delay(100);
+          continue;
+        }
+        await this.acquire(entry.item);
+        if (signal.aborted) break;
+        try {
+          const followUps = await worker(entry.item, signal);
+          if (followUps) {
+            followUps.forEach(item => pending.push({ item, attempt: 0 }));
+            startWorkers();
+          }
+        } catch (error) {
+          // Aborted requests are expected after cancel and are not failures.
+          if (signal.aborted) break;
+          const transient = asTransientError(error);
+          entry.attempt++;
+          if (!transient || entry.attempt > this.options.maxRetries) {
+            callbacks.onFailure?.(entry.item, error);
+            continue;
+          }
+          const delayMs = this.backoffDelay(entry.attempt, transient.retryAfterMs);
+          if (transient.retryAfterMs) {
+            this.cooldownUntil = Math.max(this.cooldownUntil, Date.now() + transient.retryAfterMs);
+          }
+          callbacks.onRetry?.(entry.item, entry.attempt, delayMs, transient);
+          backingOff++;
+          this.delay(delayMs).then(() => {
+            backingOff--;
+            pending.push(entry);
+          });
+        }
+      }
+    };
+
+    // Workers stop once nothing is left for them, so follow-ups start new ones up to the concurrency.
+    const workers: Promise<void>[] = [];
+    let running = 0;
+    const startWorkers = () => {
+      const count = Math.min(this.options.concurrency - running, pending.length);
+      for (let i = 0; i < count; i++) {
+        running++;
+        workers.push(runWorker().finally(() => running--));
+      }
+    };
+
+    startWorkers();
+    // Workers started later are pushed before the worker that started them finishes.
+    for (let i = 0; i < workers.length; i++) await workers[i];
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Thrown for failures that are expected to succeed on a later attempt
+ * (rate limiting, temporary overload). The analysis queue catches these and
+ * requeues the item instead of recording a permanent error.
+ */
+export class TransientApiError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'TransientApiError';
+  }
+}
+
+const TRANSIENT_STATUSES = [429, 500, 503];
+
+/**
+ * Extracts a retry delay from an API error. Gemini reports it as a `retryDelay`
+ * field inside the error body (e.g. "retryDelay": "17s"); HTTP servers send a
+ * `retry-after` header, which some SDKs fold into the message.
+ */
+const parseRetryAfterMs = (error: any): number | undefined => {
+  const message: string = error?.message || '';
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.round(parseFloat(retryDelay[1]) * 1000);
+  const retryAfter = message.match(/retry-after[":\s]+(\d+)/i);
+  if (retryAfter) return parseInt(retryAfter[1], 10) * 1000;
+  return undefined;
+}
+
+/** Returns a TransientApiError if the given error is worth retrying, otherwise null. */
+export const asTransientError = (error: any): TransientApiError | null => {
+  if (error instanceof TransientApiError) return error;
+  const message: string = error?.message || '';
+  let status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  if (status === undefined) {
+    const match = message.match(/\b(429|500|503)\b/);
+    if (match) status = parseInt(match[1], 10);
+  }
+  const isTransient = (status !== undefined && TRANSIENT_STATUSES.includes(status))
+    || /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+  if (!isTransient) return null;
+  return new TransientApiError(message || 'Temporary API failure.', status, parseRetryAfterMs(error));
+}
@@ -1,11 +1,39 @@
-import { Component, ChangeDetectionStrategy, signal, WritableSignal, computed, inject, Signal, ViewChild, ElementRef, effect } from '@angular/core';
+import { Component, ChangeDetectionStrategy, signal, WritableSignal, computed, inject, Signal, ViewChild, ElementRef, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { GeminiService, SurveyResponse, AnalysisResult } from './gemini.service';
+import { GeminiService, SurveyResponse, AnalysisResult, AnalysisCorrection, ChatMessage, QuestionAnalysis, ResponseAnalysis } from './gemini.service';
 import { SafeHtmlPipe } from './safe-html.pipe';
+import { AnalysisQueue, AnalysisQueueOptions, DEFAULT_QUEUE_OPTIONS } from './analysis-queue';
+import { SessionStoreService, AnalysisSession, SessionStatus } from './session-store.service';
+import { DEFAULT_EMBEDDING_MODELS, DEFAULT_MODELS, LlmProviderConfig, LlmProviderKind } from './llm-provider';
+import { DEFAULT_TAXONOMY, Taxonomy, cloneTaxonomy, validateTaxonomy } from './taxonomy';
+import { TaxonomyEditorComponent } from './taxonomy-editor.component';
+import { AnalysisEditorComponent } from './analysis-editor.component';
+import { CsvDelimiter, CsvEncoding } from './csv-parser';
+import { ImportReport, SUPPORTED_FILE_TYPES, detectImportFormat } from './file-import';
+import { DataWorkerService } from './data-worker.service';
+import { ClassificationCacheService } from './classification-cache.service';
+import { RunEstimate, estimateRun, pricingFor } from './cost-estimate';
+import { randomSample, stratifiedSample } from './sampling';
+import { DEFAULT_PREPROCESS_OPTIONS, EXCLUSION_LABELS, ExclusionReason, PreprocessOptions } from './preprocessing';
+import { languageName } from './language';
+import { RedactionService } from './redaction.service';
+import { BUILT_IN_REDACTION_RULES, BuiltInRedactionRule, CustomRedactionPattern, RedactionSettings, createRedactor, validateRedactionSettings } from './redaction';
+import { EvaluationReport, GoldLabel, evaluateAgainstGold, parseGoldLabels } from './evaluation';
+import { EmbeddingService, EmbeddingUnit } from './embedding.service';
+import { LOCAL_EMBEDDING_SPACE, SimilarAnswer } from './embeddings';
+import { TopicFit, suggestClusterCount, topicFit } from './clustering';
+import { CHAT_EXCERPT_LIMIT, ChatContext, chatStatistics, rankByKeywords, searchableText, selectExcerpts } from './chat-context';
+import { QueryToolContext, describeQueryData, executeQueryTool, queryTools } from './query-tools';
+import { ChatMemory, ChatTranscript, EMPTY_CHAT_MEMORY, chatConversation, extractFollowUps, messagesToSummarize, transcriptToMarkdown, withoutFollowUps } from './chat-memory';
+import { ChatCitation, CitableAnswer, citationStatusLabel, verifyCitations } from './citations';
+import { DashboardAggregates, DashboardQuery, EMPTY_AGGREGATES, QUESTION_SLOTS, TopicSummary, answerRef, parseAnswerRef, pickOutcome, questionOutcome, viewForQuestion } from './aggregation';
 import * as d3 from 'd3';
 
-type AppState = 'upload' | 'mapping' | 'analyzing' | 'results';
-type ChatMessage = { sender: 'user' | 'bot'; text: string; };
+type AppState = 'upload' | 'mapping' | 'discovery' | 'analyzing' | 'results';
+
+const SIMILAR_RESULTS = 25; // Answers listed for a semantic search or "more like this"
+const MAX_CLUSTERED_ANSWERS = 5000; // Larger selections are clustered on a random sample
+const CLUSTER_LABEL_SAMPLES = 8; // Answers closest to a cluster's centre, sent to have it labeled
 
 interface TopicNode {
   name: string;
@@ -15,50 +43,163 @@ interface TopicNode {
   expanded: boolean;
 }
 
+/** A group of similar answers found by clustering, and how well it lines up with the taxonomy. */
+interface ThemeCluster {
+  id: number;
+  label: string;
+  description: string;
+  members: AnalysisResult[]; // Closest to the cluster's centre first
+  cohesion: number;
+  fit: TopicFit;
+}
+
+/** One open-text answer to classify; `id` keys it through pre-processing, the cache and batching. */
+interface AnalysisUnit {
+  id: number;
+  response: SurveyResponse;
+  question: string;
+  text: string;
+}
+
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, SafeHtmlPipe],
+  imports: [CommonModule, SafeHtmlPipe, TaxonomyEditorComponent, AnalysisEditorComponent],
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class AppComponent {
   private geminiService = inject(GeminiService);
+  private sessionStore = inject(SessionStoreService);
+  private dataWorker = inject(DataWorkerService);
+  private classificationCache = inject(ClassificationCacheService);
+  private redaction = inject(RedactionService);
+  private embeddings = inject(EmbeddingService);
 
   // App State
   appState: WritableSignal<AppState> = signal('upload');
   fileName = signal<string>('');
   error = signal<string>('');
   isParsing = signal(false);
+  csvEncoding = signal<CsvEncoding>('utf-8');
+  csvDelimiter = signal<CsvDelimiter | 'auto'>('auto');
+  parseReport = signal<ImportReport | null>(null);
+  readonly supportedFileTypes = SUPPORTED_FILE_TYPES;
+  readonly defaultEmbeddingModels = DEFAULT_EMBEDDING_MODELS;
+  // Sheet names of an uploaded workbook with more than one sheet, waiting for the user to pick one.
+  workbookSheets = signal<string[]>([]);
+  private pendingWorkbookFile: File | null = null;
 
   // CSV Data & Mappings
   rawCsvData = signal<string[][]>([]);
   headers = computed(() => this.rawCsvData()[0] || []);
   rows = computed(() => this.rawCsvData().slice(1));
-  mappedTextColumn = signal<string>('');
+  mappedTextColumns = signal<string[]>([]); // Each one is analyzed as a separate question
+  mappedTextColumn = computed(() => this.mappedTextColumns()[0] || '');
   mappedDateColumn = signal<string>('');
   mappedDimensionColumns = signal<string[]>([]);
+  taxonomy = signal<Taxonomy>(cloneTaxonomy(DEFAULT_TAXONOMY));
+
+  // Topic Discovery
+  discoverySampleSize = signal(150);
+  proposedTaxonomy = signal<Taxonomy | null>(null);
+  isDiscovering = signal(false);
+  private discoveryAbort: AbortController | null = null;
+
+  // Saved Sessions
+  currentSessionId = signal<string | null>(null);
+  savedSessions = signal<AnalysisSession[]>([]);
+  private sessionWrites: Promise<void> = Promise.resolve();
 
   // Analysis
-  analysisResults: WritableSignal<AnalysisResult[]> = signal([]);
-  analysisProgress = signal(0);
+  // Results are appended in place rather than copied per row; `equal` makes every update notify readers.
+  analysisResults: WritableSignal<AnalysisResult[]> = signal([], { equal: () => false });
+  private resultsById = new Map<number, AnalysisResult>();
+  answersDone = signal(0);
+  answersTotal = signal(0);
+  analysisProgress = computed(() => this.answersTotal() > 0 ? Math.round((this.answersDone() / this.answersTotal()) * 100) : 0);
   isAnalyzing = signal(false);
+  queueOptions = signal<AnalysisQueueOptions>({ ...DEFAULT_QUEUE_OPTIONS });
+  batchSize = signal(10); // Responses classified per API call; 1 disables batching.
+  pendingRetries = signal(0);
+  failedCount = signal(0);
+  isPaused = signal(false);
+  cacheHits = signal(0);
+  cacheMisses = signal(0);
+  forceReanalysis = signal(false); // Skip cache lookups; fresh results still overwrite the cache.
+  sampleMode = signal<'all' | 'random' | 'stratified'>('all');
+  sampleSize = signal(200);
+  sampleDimension = signal('');
+  sampleRowIds = signal<number[] | null>(null); // Restricts the current run to a preview sample
+  preprocessOptions = signal<PreprocessOptions>({ ...DEFAULT_PREPROCESS_OPTIONS });
+  readonly exclusionLabels = EXCLUSION_LABELS;
+  // Local PII redaction, applied to everything sent to the AI provider
+  redactionSettings = this.redaction.settings;
+  neverSendColumns = this.redaction.neverSendColumns;
+  redactionReport = this.redaction.report;
+  readonly builtInRedactionRules = BUILT_IN_REDACTION_RULES;
+  private activeQueue: AnalysisQueue<AnalysisUnit[]> | null = null;
 
   // Results View State
   filters = signal<{ [key: string]: string }>({});
+  selectedQuestion = signal<string | null>(null); // null combines the answers to every question
+  languageFilter = signal<string | null>(null);
+  showTranslations = signal(false); // Show English translations instead of the original verbatims
+  readonly languageName = languageName;
   isModalOpen = signal(false);
   modalTitle = signal('');
   modalResponses = signal<AnalysisResult[]>([]);
   selectedTopic = signal<string | null>(null);
+
+  // Human Review
+  readonly lowConfidence = 65; // Classifications below this are highlighted and queued for review
+  editingAnswer = signal<string | null>(null); // answerKey of the table row being corrected
+  reviewItems = signal<{ rowId: number; question: string }[]>([]);
+  reviewIndex = signal(0);
+  isReviewOpen = signal(false);
+
+  // Semantic Search
+  searchQuery = signal('');
+  isSearching = signal(false);
+  searchError = signal('');
+  modalScores = signal<Map<string, number> | null>(null); // Similarity per answerKey when the modal lists search hits
+  embeddingProgress = this.embeddings.progress;
+  isEmbedding = this.embeddings.isIndexing;
+  embeddingNotice = this.embeddings.notice;
+  usesLocalEmbeddings = computed(() =>
+    (this.embeddings.space() ?? this.geminiService.embeddingSpace() ?? LOCAL_EMBEDDING_SPACE) === LOCAL_EMBEDDING_SPACE);
+
+  // Emerging Themes
+  clusterCount = signal<number | null>(null); // null picks a count from the number of answers
+  themeClusters = signal<ThemeCluster[]>([]);
+  clusteredCount = signal(0);
+  clusterSampled = signal(false);
+  isClustering = signal(false);
+  clusterError = signal('');
+  clusterNotice = signal('');
+
+  // Gold-set Evaluation
+  goldLabels = signal<GoldLabel[]>([]);
+  goldFileName = signal('');
+  goldError = signal('');
+  goldSkippedRows = signal(0);
+  isParsingGold = signal(false);
   
   // Chart Elements
   @ViewChild('trendChart') private trendChartEl?: ElementRef<SVGElement>;
   @ViewChild('intentChart') private intentChartEl?: ElementRef<SVGElement>;
   @ViewChild('topicChart') private topicChartEl?: ElementRef<SVGElement>;
+  @ViewChild('calibrationChart') private calibrationChartEl?: ElementRef<SVGElement>;
 
   // Chatbot
   chatHistory: WritableSignal<ChatMessage[]> = signal([]);
+  chatMemory = signal<ChatMemory>(EMPTY_CHAT_MEMORY);
+  chatTranscripts = signal<ChatTranscript[]>([]);
+  activeTranscriptId = signal<string | null>(null); // Saved transcript the current chat continues, if any
   isChatbotLoading = signal(false);
+  // True until the first piece of a streamed answer arrives.
+  isAwaitingChatText = computed(() => this.isChatbotLoading() && this.chatHistory()[this.chatHistory().length - 1]?.sender === 'user');
+  private generationAborts = new Map<'chat' | 'summary' | 'recommendations', AbortController>();
 
   // Recommendations Agent
   recommendationFilterType = signal<'sentiment' | 'intent' | ''>('');
@@ -79,162 +220,528 @@ export class AppComponent {
   executiveSummary = signal('');
   isGeneratingSummary = signal(false);
 
-  // API Key validation
-  isApiKeyValid = this.geminiService.isApiKeyValid;
+  // AI Provider
+  isProviderReady = this.geminiService.isProviderReady;
+  providerConfig = this.geminiService.providerConfig;
 
-  private delay = (ms: number) => new Promise(res => setTimeout(res, ms));
   private chartColors = ['#4f46e5', '#7c3aed', '#10b981', '#f59e0b', '#ef4444', '#db2777']; // indigo, purple, emerald, amber, red, pink
 
   // FIX: Moved all method definitions before computed properties and constructor to fix initialization order errors.
-  private getCounts = (results: AnalysisResult[], field: 'sentiment' | 'intent' | 'topics', slice?: number) => {
-    const counts: { [key: string]: number } = {};
-    results.forEach(r => {
-      if (!r.analysis) return;
-      if (field === 'topics') {
-        r.analysis.topics?.forEach(topic => {
-           counts[topic] = (counts[topic] || 0) + 1;
-        })
-      } else {
-        const value = r.analysis[field];
-        if (value) {
-          counts[value as string] = (counts[value as string] || 0) + 1;
-        }
-      }
-    });
-    const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
-    return slice ? sorted.slice(0, slice).reverse() : sorted;
-  }
-  
   private drawCharts = () => {
       if (this.trendChartEl && this.trendData()) this.drawTrendChart();
       if (this.intentChartEl) this.drawIntentPieChart();
       if (this.topicChartEl) this.drawTopicBarChart();
+      if (this.calibrationChartEl) this.drawCalibrationChart();
   }
   
-  handleFileUpload = (event: Event) => {
+  handleFileUpload = async (event: Event) => {
     const input = event.target as HTMLInputElement;
     const file = input.files?.[0];
+    if (!file) return;
 
-    if (file && file.name.endsWith('.csv')) {
-      this.isParsing.set(true);
-      this.fileName.set(file.name);
-      this.error.set('');
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const data = this.parseCsv(text);
-          if (!data || data.length === 0 || data[0].length === 0) {
-            throw new Error('The CSV file is empty or could not be parsed. Please check the file content.');
-          }
-          this.rawCsvData.set(data);
-          this.appState.set('mapping');
-        } catch (err: any) {
-           console.error('Error processing CSV file:', err);
-           this.error.set(err.message || 'Failed to parse the file. Please ensure it is a valid, plain-text CSV.');
-           this.appState.set('upload');
-        } finally {
-          this.isParsing.set(false);
-        }
-      };
-      reader.readAsText(file);
-    } else {
-      this.error.set('Please upload a valid .csv file.');
+    const format = detectImportFormat(file.name);
+    if (!format) {
+      this.error.set('Please upload a .csv, .xlsx, .json or .jsonl file.');
+      input.value = '';
+      return;
+    }
+
+    this.isParsing.set(true);
+    this.fileName.set(file.name);
+    this.error.set('');
+    this.parseReport.set(null);
+    this.workbookSheets.set([]);
+    this.pendingWorkbookFile = null;
+    try {
+      const outcome = await this.dataWorker.parseFile(file, format, { encoding: this.csvEncoding(), delimiter: this.csvDelimiter() });
+      if ('sheets' in outcome) {
+        this.pendingWorkbookFile = file;
+        this.workbookSheets.set(outcome.sheets);
+        return;
+      }
+      this.applyImport(outcome.report);
+    } catch (err: any) {
+      console.error('Error processing uploaded file:', err);
+      this.error.set(err.message || 'Failed to parse the file. Please check that it is a valid export.');
+      this.appState.set('upload');
+    } finally {
+      this.isParsing.set(false);
+      // Allow picking the same file again, e.g. after changing the encoding.
+      input.value = '';
     }
   }
 
-  private parseCsv = (text: string): string[][] => {
-    const lines = text.split(/\r\n|\n/).filter(line => line.trim() !== '');
-    if (lines.length === 0) return [];
-    
-    const data: string[][] = [];
-    for (const line of lines) {
-        const fields: string[] = [];
-        let currentField = '';
-        let inQuotes = false;
-        for (let i = 0; i < line.length; i++) {
-            const char = line[i];
-            if (char === '"') {
-                if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-                    currentField += '"';
-                    i++; 
-                } else {
-                    inQuotes = !inQuotes;
-                }
-            } else if (char === ',' && !inQuotes) {
-                fields.push(currentField.trim());
-                currentField = '';
-            } else {
-                currentField += char;
-            }
-        }
-        fields.push(currentField.trim());
-        data.push(fields);
+  selectSheet = async (sheetName: string) => {
+    const file = this.pendingWorkbookFile;
+    if (!file) return;
+    this.isParsing.set(true);
+    try {
+      const outcome = await this.dataWorker.parseFile(file, 'xlsx', { encoding: this.csvEncoding(), delimiter: this.csvDelimiter() }, sheetName);
+      if ('report' in outcome) this.applyImport(outcome.report);
+      this.pendingWorkbookFile = null;
+      this.workbookSheets.set([]);
+    } catch (err: any) {
+      console.error('Error reading worksheet:', err);
+      this.error.set(err.message || 'Failed to read the selected sheet.');
+    } finally {
+      this.isParsing.set(false);
     }
-    const headerCount = data[0].length;
-    if (!data.every(row => row.length === headerCount)) {
-        console.warn('CSV has inconsistent column counts, which might lead to unexpected behavior.');
+  }
+
+  private applyImport = (report: ImportReport) => {
+    const data = report.data;
+    if (!data || data.length === 0 || data[0].length === 0) {
+      throw new Error(report.format === 'xlsx'
+        ? `Sheet "${report.sheetName}" is empty. Please pick a sheet with a header row.`
+        : 'The file is empty or could not be parsed. Please check the file content.');
     }
-    return data;
+    this.parseReport.set(report);
+    this.rawCsvData.set(data);
+    this.appState.set('mapping');
   }
 
   startAnalysis = () => {
-    if (!this.mappedTextColumn()) {
-      this.error.set('Please select the column for response text.');
+    if (this.mappedTextColumns().length === 0) {
+      this.error.set('Please select at least one column with response text.');
+      return;
+    }
+    // Answer refs leave room for QUESTION_SLOTS questions per row (see answerRef).
+    if (this.mappedTextColumns().length > QUESTION_SLOTS) {
+      this.error.set(`Please select at most ${QUESTION_SLOTS} text columns.`);
+      return;
+    }
+    const taxonomyProblems = validateTaxonomy(this.taxonomy());
+    if (taxonomyProblems.length > 0) {
+      this.error.set(`Please fix the topic taxonomy: ${taxonomyProblems[0]}`);
+      return;
+    }
+    const redactionProblems = validateRedactionSettings(this.redactionSettings());
+    if (redactionProblems.length > 0) {
+      this.error.set(`Please fix the redaction settings: ${redactionProblems[0]}`);
+      return;
+    }
+    const withheld = this.mappedTextColumns().find(column => this.neverSendColumns().includes(column));
+    if (withheld) {
+      this.error.set(`"${withheld}" is marked as never send, so it cannot be analyzed. Unmark it or deselect it as a text column.`);
       return;
     }
+    if (this.sampleMode() === 'stratified' && !this.sampleDimension()) {
+      this.error.set('Please choose the column to stratify the sample by.');
+      return;
+    }
+    this.replaceResults([]);
+    this.redaction.resetReport();
+    this.sampleRowIds.set(this.pickSample());
+    this.currentSessionId.set(crypto.randomUUID());
+    this.persistSession({ createdAt: new Date(), status: 'analyzing' });
+    this.runAnalysis();
+  }
+
+  /** Row ids for a preview run, or null to analyze the whole file. */
+  private pickSample = (): number[] | null => {
+    const mode = this.sampleMode();
+    if (mode === 'all' || this.sampleSize() >= this.rows().length) return null;
+    const rowIds = this.rows().map((_, index) => index + 2);
+    if (mode === 'random') return randomSample(rowIds, this.sampleSize());
+    const dimensionIndex = this.headers().indexOf(this.sampleDimension());
+    return stratifiedSample(rowIds, this.sampleSize(), rowId => this.rows()[rowId - 2][dimensionIndex]);
+  }
+
+  /** Analyzes every answer that has no outcome yet or failed, so it also resumes interrupted sessions. */
+  private runAnalysis = () => {
     this.error.set('');
     this.appState.set('analyzing');
     this.isAnalyzing.set(true);
-    this.analysisProgress.set(0);
 
-    const textColumnIndex = this.headers().indexOf(this.mappedTextColumn());
-    const dateColumnIndex = this.mappedDateColumn() ? this.headers().indexOf(this.mappedDateColumn()) : -1;
+    const units = this.pendingAnswers();
+    const rowCount = this.sampleRowIds()?.length ?? this.rows().length;
+    this.answersTotal.set(rowCount * this.mappedTextColumns().length);
+    this.answersDone.set(Math.max(0, this.answersTotal() - units.length));
+    this.processAnalysisQueue(units);
+  }
 
-    const dataToAnalyze = this.rows().map((row, index): SurveyResponse => {
-      const response: SurveyResponse = { rowId: index + 2 };
-      this.headers().forEach((header, i) => {
+  /** One unit per mapped text column that a row in the run has no outcome for, or only a failed one. */
+  private pendingAnswers = (): AnalysisUnit[] => {
+    const headers = this.headers();
+    const questions = this.mappedTextColumns();
+    const sample = this.sampleRowIds();
+    const inSample = sample ? new Set(sample) : null;
+    const units: AnalysisUnit[] = [];
+    this.rows().forEach((row, index) => {
+      const rowId = index + 2;
+      if (inSample && !inSample.has(rowId)) return;
+      const existing = this.resultsById.get(rowId);
+      const missing = questions.filter(question => {
+        const outcome = existing && questionOutcome(existing, question, questions[0]);
+        return !outcome || (!!outcome.error && !outcome.analysis);
+      });
+      if (missing.length === 0) return;
+      const response: SurveyResponse = { rowId };
+      headers.forEach((header, i) => {
         response[header] = row[i];
       });
-      return response;
+      missing.forEach(question => units.push({ id: units.length, response, question, text: response[question] || '' }));
     });
-    
-    this.processAnalysisQueue(dataToAnalyze, textColumnIndex, dateColumnIndex);
+    return units;
   }
 
-  private processAnalysisQueue = async (queue: SurveyResponse[], textIndex: number, dateIndex: number) => {
-    const totalToProcess = queue.length;
-    let processedCount = 0;
+  private replaceResults = (results: AnalysisResult[]) => {
+    this.resultsById = new Map(results.map(r => [r.rowId, r]));
+    this.analysisResults.set(results);
+    this.dataWorker.setResults(results);
+  }
 
-    const processItem = async (item: SurveyResponse) => {
-        const analysis = await this.geminiService.analyzeSurveyResponse(item[this.headers()[textIndex]]);
-        const result: AnalysisResult = { ...item };
-        if (analysis.error) {
-            result.error = analysis.error;
-        } else {
-            result.analysis = analysis;
-        }
-        if (dateIndex > -1) {
-            result.date = this.parseDate(item[this.headers()[dateIndex]]);
+  /** Stores one question's outcome on a row's result; the primary question's is mirrored at the top level. */
+  private setOutcome = (result: AnalysisResult, question: string, outcome: QuestionAnalysis) => {
+    const primary = this.mappedTextColumn();
+    // Saved before multi-question runs: the top-level fields hold the primary question's outcome.
+    result.analyses ||= { [primary]: pickOutcome(result) };
+    result.analyses[question] = outcome;
+    if (question === primary) Object.assign(result, pickOutcome(outcome));
+  }
+
+  /** Publishes an added or changed result to the dashboard, the data worker and the saved session. */
+  private commitResult = (result: AnalysisResult, sessionId = this.currentSessionId()) => {
+    this.analysisResults.update(current => current);
+    this.dataWorker.appendResult(result);
+    if (sessionId) {
+      this.sessionStore.saveResult(sessionId, result).catch(err => console.error('Failed to save result:', err));
+    }
+  }
+
+  private processAnalysisQueue = async (queue: AnalysisUnit[]) => {
+    const dateHeader = this.mappedDateColumn() || null;
+    const sessionId = this.currentSessionId();
+    const taxonomy = this.taxonomy();
+    this.pendingRetries.set(0);
+    this.failedCount.set(0);
+    // Representative unit id -> duplicates that share its analysis (or its error).
+    const fanOut = new Map<number, AnalysisUnit[]>();
+
+    // Merges one answer's outcome into its row's result, creating the result for the row's first answer.
+    const addResult = (unit: AnalysisUnit, outcome: QuestionAnalysis) => {
+        let result = this.resultsById.get(unit.response.rowId);
+        if (!result) {
+            result = { ...unit.response, analyses: {} };
+            if (dateHeader) {
+                result.date = this.parseDate(unit.response[dateHeader]);
+            }
+            this.resultsById.set(result.rowId, result);
+            this.analysisResults.update(current => {
+                current.push(result!);
+                return current;
+            });
         }
-        
-        processedCount++;
-        this.analysisProgress.set(Math.round((processedCount / totalToProcess) * 100));
-        this.analysisResults.update(current => [...current, result]);
+        this.setOutcome(result, unit.question, outcome);
+        this.commitResult(result, sessionId);
+        this.answersDone.update(n => n + 1);
+        fanOut.get(unit.id)?.forEach(duplicate => addResult(duplicate, { ...outcome, duplicateOf: unit.response.rowId }));
     };
-    
-    const CONCURRENCY_DELAY_MS = 1100; // ~55 requests per minute, safely under the 60 RPM limit.
 
-    // Process items sequentially with a delay to avoid rate limiting
-    for (const item of queue) {
-      await processItem(item);
-      await this.delay(CONCURRENCY_DELAY_MS);
+    // Mask PII locally; only redacted text is cached, pre-processed and sent to the provider.
+    const redacted = this.redaction.redactAll(queue.map(unit => unit.text));
+    queue.forEach((unit, i) => unit.text = redacted[i]);
+
+    const analysisQueue = new AnalysisQueue<AnalysisUnit[]>(this.queueOptions(), batch =>
+        this.geminiService.estimateBatchAnalysisTokens(batch.map(unit => unit.text), taxonomy));
+    this.activeQueue = analysisQueue;
+    this.isPaused.set(false);
+
+    // Drop empty, junk and duplicate answers locally before spending any API calls on them.
+    try {
+        const outcome = await this.dataWorker.preprocess(
+            queue.map(unit => ({ rowId: unit.id, text: unit.text })), this.preprocessOptions());
+        if (this.activeQueue !== analysisQueue) return;
+        const byId = new Map(queue.map(unit => [unit.id, unit]));
+        const shared = new Set<number>();
+        outcome.fanOut.forEach((duplicates, id) => {
+            fanOut.set(id, duplicates.map(d => byId.get(d.rowId)!));
+            duplicates.forEach(d => shared.add(d.rowId));
+        });
+        outcome.excluded.forEach((reason, id) => {
+            if (!shared.has(id)) addResult(byId.get(id)!, { excluded: reason });
+        });
+        const analyze = new Set(outcome.analyze);
+        queue = queue.filter(unit => analyze.has(unit.id));
+    } catch (err) {
+        console.error('Pre-processing failed, analyzing every response:', err);
+    }
+    if (this.activeQueue !== analysisQueue) return;
+
+    const provider = this.geminiService.provider();
+    const cacheKeyFor = this.classificationCache.keyer(taxonomy, `${provider?.label}/${provider?.model}`);
+    const cacheKeys = new Map<number, string>();
+    let cached = new Map<string, ResponseAnalysis>();
+    try {
+        await Promise.all(queue.map(async unit => cacheKeys.set(unit.id, await cacheKeyFor(unit.text))));
+        if (!this.forceReanalysis()) {
+            cached = await this.classificationCache.getMany(Array.from(new Set(cacheKeys.values())));
+        }
+    } catch (err) {
+        // The cache only saves cost; analyze everything if it is unavailable.
+        console.error('Classification cache lookup failed:', err);
     }
-    
+    if (this.activeQueue !== analysisQueue) return;
+
+    const misses = queue.filter(unit => {
+        const analysis = cached.get(cacheKeys.get(unit.id)!);
+        if (analysis) addResult(unit, { analysis });
+        return !analysis;
+    });
+    this.cacheHits.set(queue.length - misses.length);
+    this.cacheMisses.set(misses.length);
+
+    const size = Math.max(1, this.batchSize());
+    const batches: AnalysisUnit[][] = [];
+    for (let i = 0; i < misses.length; i += size) {
+        batches.push(misses.slice(i, i + size));
+    }
+
+    const retrying = new Set<number>();
+    const settleRetries = (batch: AnalysisUnit[]) => {
+        batch.forEach(unit => retrying.delete(unit.id));
+        this.pendingRetries.set(retrying.size);
+    };
+
+    await analysisQueue.run(batches, async (batch, signal) => {
+        // Transient errors (429/503) propagate out of here so the queue can requeue the batch.
+        const { results: analyses, unresolved } = await this.geminiService.analyzeSurveyResponsesBatch(
+            batch.map(unit => ({ rowId: unit.id, text: unit.text })), taxonomy, signal);
+        settleRetries(batch);
+        const retry = new Set(unresolved);
+        const fresh: { key: string; analysis: ResponseAnalysis }[] = [];
+        batch.filter(unit => !retry.has(unit.id)).forEach(unit => {
+            const analysis = analyses.get(unit.id);
+            addResult(unit, !analysis || analysis.error ? { error: analysis?.error || 'No result returned for this row.' } : { analysis });
+            const key = cacheKeys.get(unit.id);
+            if (analysis && !analysis.error && key) fresh.push({ key, analysis });
+        });
+        this.classificationCache.putMany(fresh).catch(err => console.error('Failed to cache results:', err));
+
+        // Answers the model dropped or garbled go back through the queue in halves, down to single-answer requests.
+        const remaining = batch.filter(unit => retry.has(unit.id));
+        const middle = Math.ceil(remaining.length / 2);
+        return [remaining.slice(0, middle), remaining.slice(middle)].filter(half => half.length > 0);
+    }, {
+        onRetry: (batch) => {
+            batch.forEach(unit => retrying.add(unit.id));
+            this.pendingRetries.set(retrying.size);
+        },
+        onFailure: (batch, error) => {
+            settleRetries(batch);
+            this.failedCount.update(c => c + batch.length);
+            batch.forEach(unit => addResult(unit, { error: error?.message || 'Failed to analyze response.' }));
+        },
+    });
+
+    // A reset replaced or cleared the run while it was winding down; leave the new state alone.
+    if (this.activeQueue !== analysisQueue) return;
+    this.activeQueue = null;
+    this.isPaused.set(false);
+
+    // Requests complete out of order; restore file order for the results table.
+    this.analysisResults.update(current => current.sort((a, b) => a.rowId - b.rowId));
     this.isAnalyzing.set(false);
+    this.persistSession({ status: analysisQueue.isCancelled ? 'stopped' : 'completed' });
     this.appState.set('results');
-}
+  }
+
+  /** Writes the current file, mappings and chat state to the active session. */
+  private persistSession = (changes: { createdAt?: Date; status?: SessionStatus } = {}) => {
+    const id = this.currentSessionId();
+    if (!id) return;
+    const state = {
+      fileName: this.fileName(),
+      rawCsvData: this.rawCsvData(),
+      mappedTextColumn: this.mappedTextColumn(),
+      mappedTextColumns: this.mappedTextColumns(),
+      mappedDateColumn: this.mappedDateColumn(),
+      mappedDimensionColumns: this.mappedDimensionColumns(),
+      neverSendColumns: this.neverSendColumns(),
+      taxonomy: this.taxonomy(),
+      sampleRowIds: this.sampleRowIds(),
+      preprocessOptions: this.preprocessOptions(),
+      analyzedCount: this.analysisResults().length,
+      chatHistory: this.chatHistory(),
+      chatMemory: this.chatMemory(),
+      chatTranscripts: this.chatTranscripts(),
+      activeTranscriptId: this.activeTranscriptId(),
+      executiveSummary: this.executiveSummary(),
+    };
+    // Updates are read-modify-write, so chain them to keep a later write from landing first.
+    this.sessionWrites = this.sessionWrites
+      .then(() => changes.createdAt
+        ? this.sessionStore.saveSession({ id, createdAt: changes.createdAt, updatedAt: new Date(), status: changes.status || 'analyzing', ...state })
+        : this.sessionStore.updateSession(id, { ...state, ...changes }))
+      .catch(err => console.error('Failed to save session:', err));
+  }
+
+  loadSavedSessions = async () => {
+    try {
+      this.savedSessions.set(await this.sessionStore.listSessions());
+    } catch (err) {
+      console.error('Failed to load saved sessions:', err);
+    }
+  }
+
+  /** Restores a saved session; runs that were interrupted mid-analysis pick up where they left off. */
+  openSession = async (session: AnalysisSession) => {
+    try {
+      const results = await this.sessionStore.getResults(session.id);
+      this.currentSessionId.set(session.id);
+      this.fileName.set(session.fileName);
+      this.rawCsvData.set(session.rawCsvData);
+      this.mappedTextColumns.set(session.mappedTextColumns || [session.mappedTextColumn]);
+      this.mappedDateColumn.set(session.mappedDateColumn);
+      this.mappedDimensionColumns.set(session.mappedDimensionColumns);
+      this.neverSendColumns.set(session.neverSendColumns || []);
+      this.redaction.resetReport();
+      // Sessions saved before taxonomies were editable used the default one.
+      this.taxonomy.set(session.taxonomy || cloneTaxonomy(DEFAULT_TAXONOMY));
+      this.sampleRowIds.set(session.sampleRowIds || null);
+      this.preprocessOptions.set(session.preprocessOptions || { ...DEFAULT_PREPROCESS_OPTIONS });
+      this.cancelGenerations();
+      this.chatHistory.set(session.chatHistory || []);
+      this.chatMemory.set(session.chatMemory || EMPTY_CHAT_MEMORY);
+      this.chatTranscripts.set(session.chatTranscripts || []);
+      this.activeTranscriptId.set(session.activeTranscriptId || null);
+      this.executiveSummary.set(session.executiveSummary || '');
+      this.selectedQuestion.set(null);
+      this.languageFilter.set(null);
+      this.clearGoldLabels();
+      this.embeddings.reset();
+      this.searchQuery.set('');
+      this.themeClusters.set([]);
+      this.clusterNotice.set('');
+      this.replaceResults(results);
+      this.error.set('');
+
+      if (session.status === 'analyzing' && this.pendingAnswers().length > 0) {
+        this.runAnalysis();
+      } else {
+        this.appState.set('results');
+      }
+    } catch (err: any) {
+      console.error('Failed to open session:', err);
+      this.error.set('This saved session could not be opened.');
+    }
+  }
+
+  deleteSession = async (session: AnalysisSession) => {
+    try {
+      await this.sessionStore.deleteSession(session.id);
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+    }
+    this.loadSavedSessions();
+  }
+
+  /** Resumes a stopped session by analyzing the rows it never reached. */
+  continueAnalysis = () => {
+    this.sampleRowIds.set(null);
+    this.persistSession({ status: 'analyzing' });
+    this.runAnalysis();
+  }
+
+  /** Asks the model to propose a taxonomy from a random sample of the answers in the mapped text columns. */
+  discoverTopics = async () => {
+    const textIndexes = this.mappedTextColumns().map(column => this.headers().indexOf(column)).filter(i => i >= 0);
+    if (textIndexes.length === 0) {
+      this.error.set('Please select at least one column with response text.');
+      return;
+    }
+    const texts = this.rows().flatMap(row => textIndexes.map(i => (row[i] || '').trim())).filter(text => text.length > 0);
+    const sample = randomSample(texts, this.discoverySampleSize());
+
+    this.error.set('');
+    this.proposedTaxonomy.set(null);
+    this.appState.set('discovery');
+    this.isDiscovering.set(true);
+    const abort = new AbortController();
+    this.discoveryAbort = abort;
+    try {
+      this.proposedTaxonomy.set(await this.geminiService.discoverTaxonomy(sample, abort.signal));
+    } catch (err: any) {
+      if (abort.signal.aborted) return;
+      console.error('Error discovering topics:', err);
+      this.error.set(`Topic discovery failed: ${err?.message || 'Unknown issue'}`);
+    } finally {
+      if (this.discoveryAbort === abort) {
+        this.discoveryAbort = null;
+        this.isDiscovering.set(false);
+      }
+    }
+  }
+
+  /** Adopts the (possibly edited) proposal as the run's taxonomy. */
+  acceptDiscoveredTaxonomy = (startNow: boolean) => {
+    const proposed = this.proposedTaxonomy();
+    if (!proposed) return;
+    this.taxonomy.set(proposed);
+    this.proposedTaxonomy.set(null);
+    if (startNow) {
+      this.startAnalysis();
+    } else {
+      this.appState.set('mapping');
+    }
+  }
+
+  cancelDiscovery = () => {
+    this.discoveryAbort?.abort();
+    this.discoveryAbort = null;
+    this.isDiscovering.set(false);
+    this.proposedTaxonomy.set(null);
+    this.error.set('');
+    this.appState.set('mapping');
+  }
+
+  pauseAnalysis = () => {
+    this.activeQueue?.pause();
+    this.isPaused.set(true);
+  }
+
+  resumeAnalysis = () => {
+    this.activeQueue?.resume();
+    this.isPaused.set(false);
+  }
+
+  /** Stops the run and shows the dashboard with whatever has been classified so far. */
+  cancelAnalysis = () => {
+    this.activeQueue?.cancel();
+  }
 
+  updateBatchSize = (event: Event) => {
+    const value = parseInt((event.target as HTMLInputElement).value, 10);
+    if (isNaN(value) || value < 1) return;
+    this.batchSize.set(Math.min(value, 50));
+  }
+
+  updatePreprocessOption = <K extends keyof PreprocessOptions>(key: K, value: PreprocessOptions[K]) => {
+    this.preprocessOptions.update(o => ({ ...o, [key]: value }));
+  }
+
+  updateSampleSize = (event: Event) => {
+    const value = parseInt((event.target as HTMLInputElement).value, 10);
+    if (isNaN(value) || value < 1) return;
+    this.sampleSize.set(value);
+  }
+
+  updateProviderConfig = (key: keyof LlmProviderConfig, event: Event) => {
+    const value = (event.target as HTMLInputElement | HTMLSelectElement).value;
+    const config = { ...this.providerConfig(), [key]: value };
+    if (key === 'kind') {
+      // Each provider has its own model namespace; don't carry a Gemini model name over to Ollama.
+      config.model = DEFAULT_MODELS[value as LlmProviderKind];
+      config.embeddingModel = DEFAULT_EMBEDDING_MODELS[value as LlmProviderKind];
+    }
+    this.geminiService.setProviderConfig(config);
+  }
+
+  updateQueueOption = (key: keyof AnalysisQueueOptions, event: Event) => {
+    const value = parseInt((event.target as HTMLInputElement).value, 10);
+    if (isNaN(value) || value < 1) return;
+    this.queueOptions.update(o => ({ ...o, [key]: value }));
+  }
 
  private parseDate = (dateStr: string): Date | undefined => {
     if (!dateStr) return undefined;
@@ -256,6 +763,131 @@ export class AppComponent {
     this.filters.update(f => ({ ...f, [dimension]: value }));
   }
 
+  toggleTextColumn = (header: string) => {
+    const columns = this.mappedTextColumns();
+    if (!columns.includes(header) && columns.length >= QUESTION_SLOTS) {
+      this.error.set(`At most ${QUESTION_SLOTS} text columns can be analyzed at once.`);
+      return;
+    }
+    this.mappedTextColumns.update(columns =>
+      columns.includes(header) ? columns.filter(c => c !== header) : [...columns, header]
+    );
+    this.mappedDimensionColumns.update(dims => dims.filter(d => d !== header));
+  }
+
+  toggleNeverSend = (header: string) => {
+    this.neverSendColumns.update(columns =>
+      columns.includes(header) ? columns.filter(c => c !== header) : [...columns, header]
+    );
+  }
+
+  /** Drops answers to never-send columns, whose excerpt and translation would otherwise reach the provider. */
+  private sendableAnswers = (views: AnalysisResult[]): AnalysisResult[] => {
+    const neverSend = this.neverSendColumns();
+    return neverSend.length > 0 ? views.filter(view => !neverSend.includes(view.question || this.mappedTextColumn())) : views;
+  }
+
+  private updateRedactionSettings = (changes: Partial<RedactionSettings>) =>
+    this.redaction.setSettings({ ...this.redactionSettings(), ...changes });
+
+  toggleRedactionRule = (rule: BuiltInRedactionRule) => {
+    const rules = this.redactionSettings().rules;
+    this.updateRedactionSettings({ rules: { ...rules, [rule]: !rules[rule] } });
+  }
+
+  updateRedactionNames = (event: Event) => {
+    const names = (event.target as HTMLTextAreaElement).value.split('\n').map(name => name.trim()).filter(Boolean);
+    this.updateRedactionSettings({ names });
+  }
+
+  addCustomPattern = () =>
+    this.updateRedactionSettings({ customPatterns: [...this.redactionSettings().customPatterns, { label: '', pattern: '' }] });
+
+  updateCustomPattern = (index: number, key: keyof CustomRedactionPattern, event: Event) => {
+    const value = (event.target as HTMLInputElement).value;
+    const customPatterns = this.redactionSettings().customPatterns.map((custom, i) => i === index ? { ...custom, [key]: value } : custom);
+    this.updateRedactionSettings({ customPatterns });
+  }
+
+  removeCustomPattern = (index: number) =>
+    this.updateRedactionSettings({ customPatterns: this.redactionSettings().customPatterns.filter((_, i) => i !== index) });
+
+  handleGoldUpload = async (event: Event) => {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    const format = detectImportFormat(file.name);
+    this.goldError.set('');
+    if (!format) {
+      this.goldError.set('Please upload the gold set as a .csv, .xlsx, .json or .jsonl file.');
+      input.value = '';
+      return;
+    }
+
+    this.isParsingGold.set(true);
+    try {
+      const options = { encoding: this.csvEncoding(), delimiter: this.csvDelimiter() };
+      let outcome = await this.dataWorker.parseFile(file, format, options);
+      // Workbooks are read from their first sheet.
+      if ('sheets' in outcome) outcome = await this.dataWorker.parseFile(file, format, options, outcome.sheets[0]);
+      if (!('report' in outcome)) throw new Error('The gold set could not be read.');
+      const { labels, skipped } = parseGoldLabels(outcome.report.data);
+      if (labels.length === 0) throw new Error('The gold set has no labeled rows.');
+      this.goldLabels.set(labels);
+      this.goldSkippedRows.set(skipped);
+      this.goldFileName.set(file.name);
+    } catch (err: any) {
+      console.error('Error reading gold set:', err);
+      this.goldError.set(err.message || 'Failed to read the gold set.');
+    } finally {
+      this.isParsingGold.set(false);
+      input.value = '';
+    }
+  }
+
+  clearGoldLabels = () => {
+    this.goldLabels.set([]);
+    this.goldFileName.set('');
+    this.goldError.set('');
+    this.goldSkippedRows.set(0);
+  }
+
+  downloadEvaluationReport = () => {
+    const report = { generatedAt: new Date().toISOString(), fileName: this.fileName(), goldSet: this.goldFileName(), ...this.evaluation() };
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'evaluation_report.json');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+
+  /** Downloads what was masked and withheld in this session, for compliance review. */
+  downloadRedactionReport = () => {
+    const settings = this.redactionSettings();
+    const report = {
+      generatedAt: new Date().toISOString(),
+      fileName: this.fileName(),
+      rules: BUILT_IN_REDACTION_RULES.map(rule => ({ rule: rule.label, enabled: settings.rules[rule.id] })),
+      nameListEntries: settings.names.length, // The names themselves are personal data
+      customPatterns: settings.customPatterns,
+      neverSendColumns: this.neverSendColumns(),
+      ...this.redactionReport(),
+    };
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'redaction_report.json');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+
   toggleDimension = (header: string) => {
     this.mappedDimensionColumns.update(dims => 
       dims.includes(header) ? dims.filter(d => d !== header) : [...dims, header]
@@ -265,32 +897,434 @@ export class AppComponent {
   openVerbatimModal = (title: string, responses: AnalysisResult[]) => {
     this.modalTitle.set(title);
     this.modalResponses.set(responses);
+    this.modalScores.set(null);
     this.isModalOpen.set(true);
   }
 
+  /** Every non-empty answer outside never-send columns, keyed by answer ref, for the semantic search index. */
+  private embeddingUnits = (): EmbeddingUnit[] => {
+    const questions = this.mappedTextColumns();
+    const neverSend = this.neverSendColumns();
+    return this.analysisResults().flatMap(result => questions
+      .map((question, index) => ({ ref: answerRef(result.rowId, index), text: neverSend.includes(question) ? '' : (result[question] || '').trim() }))
+      .filter(unit => unit.text));
+  }
+
+  /** Indexes any answers not embedded yet, then lists the matches in the verbatim modal. */
+  private openSimilarAnswers = async (title: string, find: () => Promise<SimilarAnswer[]> | SimilarAnswer[]) => {
+    this.isSearching.set(true);
+    this.searchError.set('');
+    try {
+      await this.embeddings.ensureIndex(this.currentSessionId(), this.embeddingUnits());
+      const matches = await find();
+      const views = matches.map(match => ({ view: this.resolveRefs([match.ref])[0], score: match.score })).filter(m => !!m.view);
+      this.openVerbatimModal(title, views.map(m => m.view));
+      this.modalScores.set(new Map(views.map(m => [this.answerKey(m.view), m.score])));
+    } catch (err: any) {
+      console.error('Semantic search failed:', err);
+      this.searchError.set(err.message || 'Semantic search failed. Please try again.');
+    } finally {
+      this.isSearching.set(false);
+    }
+  }
+
+  semanticSearch = () => {
+    const query = this.searchQuery().trim();
+    if (!query || this.isSearching()) return;
+    this.openSimilarAnswers(`Search: "${query}"`, () => this.embeddings.search(query, SIMILAR_RESULTS));
+  }
+
+  showSimilar = (view: AnalysisResult) => {
+    if (this.isSearching()) return;
+    this.openSimilarAnswers(`More like row ${view.rowId}`, () => this.embeddings.similarTo(this.answerRefOf(view), SIMILAR_RESULTS));
+  }
+
+  private answerRefOf = (view: AnalysisResult): number => {
+    const questions = this.mappedTextColumns();
+    return answerRef(view.rowId, Math.max(0, questions.indexOf(view.question || questions[0])));
+  }
+
+  /** The verbatim of an answer as it may go to the AI provider; empty if its column was marked never send after analysis. */
+  private answerTextOf = (view: AnalysisResult): string => {
+    const column = view.question || this.mappedTextColumn();
+    return this.neverSendColumns().includes(column) ? '' : (view[column] || '').trim();
+  }
+
+  updateClusterCount = (event: Event) => {
+    const value = parseInt((event.target as HTMLInputElement).value, 10);
+    this.clusterCount.set(isNaN(value) || value < 2 ? null : Math.min(50, value));
+  }
+
+  /** Clusters the filtered answers by embedding and has the AI provider name each cluster. */
+  findThemes = async () => {
+    if (this.isClustering()) return;
+    this.isClustering.set(true);
+    this.clusterError.set('');
+    this.clusterNotice.set('');
+    try {
+      const candidates = this.filteredAnalysisResults().filter(view => !view.excluded && this.answerTextOf(view));
+      const views = candidates.length > MAX_CLUSTERED_ANSWERS ? randomSample(candidates, MAX_CLUSTERED_ANSWERS) : candidates;
+      const units = views.map(view => ({ ref: this.answerRefOf(view), text: this.answerTextOf(view) }));
+      await this.embeddings.ensureIndex(this.currentSessionId(), units);
+      const indexed = views
+        .map((view, i) => ({ view, vector: this.embeddings.vectorFor(units[i].ref) }))
+        .filter((item): item is { view: AnalysisResult; vector: Float32Array } => !!item.vector);
+      if (indexed.length < 2) throw new Error('At least two answers are needed to find themes.');
+
+      const k = this.clusterCount() ?? suggestClusterCount(indexed.length);
+      const outcome = await this.dataWorker.cluster(indexed.map(item => item.vector), k);
+      const clusters: ThemeCluster[] = outcome.clusters.map((cluster, id) => {
+        const members = cluster.members.map(i => indexed[i].view);
+        return { id, label: `Theme ${id + 1}`, description: '', members, cohesion: cluster.cohesion, fit: topicFit(members.map(m => m.analysis?.topics[0])) };
+      });
+
+      try {
+        const labels = await this.geminiService.labelClusters(
+          clusters.map(c => ({ id: c.id, samples: c.members.slice(0, CLUSTER_LABEL_SAMPLES).map(this.answerTextOf) })), this.taxonomy());
+        clusters.forEach(cluster => Object.assign(cluster, labels.get(cluster.id)));
+      } catch (err: any) {
+        console.error('Failed to label themes:', err);
+        this.clusterNotice.set(`The AI provider could not label the themes (${err.message || 'unknown error'}), so they are numbered instead.`);
+      }
+
+      // Themes the taxonomy covers poorly come first.
+      this.themeClusters.set(clusters.sort((a, b) => Number(b.fit.poorFit) - Number(a.fit.poorFit) || b.members.length - a.members.length));
+      this.clusteredCount.set(indexed.length);
+      this.clusterSampled.set(views.length < candidates.length);
+    } catch (err: any) {
+      console.error('Failed to find themes:', err);
+      this.clusterError.set(err.message || 'Failed to find themes. Please try again.');
+    } finally {
+      this.isClustering.set(false);
+    }
+  }
+
+  renameCluster = (cluster: ThemeCluster, event: Event) => {
+    const label = (event.target as HTMLInputElement).value.trim();
+    if (!label) return;
+    this.themeClusters.update(clusters => clusters.map(c => c.id === cluster.id ? { ...c, label } : c));
+  }
+
+  isInTaxonomy = (name: string) => this.taxonomy().topics.some(t => t.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  /** Adds a cluster to the taxonomy as a main topic, with its most central answers as examples. */
+  promoteCluster = (cluster: ThemeCluster) => {
+    if (this.isInTaxonomy(cluster.label)) {
+      this.clusterNotice.set(`"${cluster.label}" is already a topic in the taxonomy.`);
+      return;
+    }
+    this.taxonomy.update(taxonomy => ({
+      ...taxonomy,
+      topics: [...taxonomy.topics, { name: cluster.label, description: cluster.description, examples: cluster.members.slice(0, 3).map(this.answerTextOf), subTopics: [] }],
+    }));
+    this.persistSession();
+    this.clusterNotice.set(`Added "${cluster.label}" to the taxonomy. Answers analyzed from now on can be classified under it; use "Review members" to recode this theme's answers.`);
+  }
+
+  /** Opens the review queue over a cluster's answers, e.g. to move them to a promoted topic. */
+  reviewCluster = (cluster: ThemeCluster) => {
+    const primary = this.mappedTextColumn();
+    this.reviewItems.set(cluster.members.filter(m => m.analysis).map(m => ({ rowId: m.rowId, question: m.question || primary })));
+    this.reviewIndex.set(0);
+    this.isReviewOpen.set(this.reviewItems().length > 0);
+  }
+
+  showClusterMembers = (cluster: ThemeCluster) =>
+    this.openVerbatimModal(`${cluster.label} (${cluster.members.length} answers)`, cluster.members);
+
+  answerKey = (result: AnalysisResult) => `${result.rowId}:${result.question ?? ''}`;
+
+  /** Applies a reviewer's change to one answer's outcome and saves it like a fresh result. */
+  private reviewAnswer = (view: AnalysisResult, change: (outcome: QuestionAnalysis) => QuestionAnalysis) => {
+    const primary = this.mappedTextColumn();
+    const question = view.question || primary;
+    const result = this.resultsById.get(view.rowId);
+    const outcome = result && questionOutcome(result, question, primary);
+    if (!result || !outcome?.analysis) return;
+    this.setOutcome(result, question, change(pickOutcome(outcome)));
+    this.commitResult(result);
+  }
+
+  /** Overrides the classification; the model's original is kept the first time it is overridden. */
+  saveCorrection = (view: AnalysisResult, correction: AnalysisCorrection) => {
+    this.reviewAnswer(view, outcome => ({
+      ...outcome,
+      analysis: { ...outcome.analysis!, ...correction },
+      aiAnalysis: outcome.aiAnalysis ?? outcome.analysis,
+      flagged: false,
+      reviewedAt: new Date().toISOString(),
+    }));
+    this.editingAnswer.set(null);
+  }
+
+  confirmClassification = (view: AnalysisResult) =>
+    this.reviewAnswer(view, outcome => ({ ...outcome, flagged: false, reviewedAt: new Date().toISOString() }));
+
+  toggleFlag = (view: AnalysisResult) =>
+    this.reviewAnswer(view, outcome => ({ ...outcome, flagged: !outcome.flagged, reviewedAt: outcome.flagged ? outcome.reviewedAt : undefined }));
+
+  revertCorrection = (view: AnalysisResult) =>
+    this.reviewAnswer(view, outcome => ({ ...outcome, analysis: outcome.aiAnalysis ?? outcome.analysis, aiAnalysis: undefined, reviewedAt: undefined }));
+
+  /** Walks through the low-confidence and flagged answers matching the current filters. */
+  openReviewQueue = () => {
+    const primary = this.mappedTextColumn();
+    this.reviewItems.set(this.reviewCandidates().map(r => ({ rowId: r.rowId, question: r.question || primary })));
+    this.reviewIndex.set(0);
+    this.isReviewOpen.set(this.reviewItems().length > 0);
+  }
+
+  nextReview = () => {
+    if (this.reviewIndex() + 1 >= this.reviewItems().length) {
+      this.isReviewOpen.set(false);
+    } else {
+      this.reviewIndex.update(i => i + 1);
+    }
+  }
+
+  previousReview = () => this.reviewIndex.update(i => Math.max(0, i - 1));
+
+  confirmAndNext = (view: AnalysisResult) => {
+    this.confirmClassification(view);
+    this.nextReview();
+  }
+
+  saveCorrectionAndNext = (view: AnalysisResult, correction: AnalysisCorrection) => {
+    this.saveCorrection(view, correction);
+    this.nextReview();
+  }
+
   toggleTopicExpansion = (topicNode: TopicNode) => {
     topicNode.expanded = !topicNode.expanded;
   }
 
+  private sendableDimensions = (): string[] => {
+    const neverSend = this.neverSendColumns();
+    return this.mappedDimensionColumns().filter(d => !neverSend.includes(d));
+  }
+
+  /**
+   * Exact statistics over every filtered answer plus the answers most relevant
+   * to the question: by embedding when the semantic search index already
+   * covers the filtered answers, by keyword otherwise.
+   */
+  private buildChatContext = async (query: string): Promise<ChatContext> => {
+    const answers = this.filteredAnalysisResults();
+    const dimensions = this.sendableDimensions();
+    const stats = chatStatistics(answers, dimensions, this.mappedTextColumns().length > 1);
+
+    const candidates = answers.filter(a => a.analysis && this.answerTextOf(a));
+    const byRef = new Map(candidates.map(a => [this.answerRefOf(a), a]));
+    let ranked: AnalysisResult[] | null = null;
+    try {
+      await this.embeddings.ensureIndex(this.currentSessionId(), []); // Loads stored vectors; embeds nothing new
+      if (this.embeddings.coverage(Array.from(byRef.keys())) >= 0.95) {
+        const matches = await this.embeddings.search(query, CHAT_EXCERPT_LIMIT, Array.from(byRef.keys()));
+        ranked = matches.map(m => byRef.get(m.ref)!);
+      }
+    } catch (err) {
+      console.error('Semantic retrieval failed; using keyword search:', err);
+    }
+    const retrieval = ranked ? 'semantic' : 'keyword';
+    ranked ??= rankByKeywords(query, candidates.map(a => searchableText(a, this.answerTextOf(a)))).map(i => candidates[i]);
+
+    return { stats, retrieval, excerpts: selectExcerpts(candidates, ranked, this.answerTextOf) };
+  }
+
   handleChatSubmit = async (event: Event) => {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
     const input = form.querySelector('input') as HTMLInputElement;
     const query = input.value.trim();
     if (!query || this.isChatbotLoading()) return;
+    input.value = '';
+    await this.askChatbot(query);
+  }
 
+  askChatbot = async (query: string) => {
+    if (this.isChatbotLoading()) return;
+    const history = this.chatHistory();
     this.chatHistory.update(h => [...h, { sender: 'user', text: query }]);
     this.isChatbotLoading.set(true);
-    input.value = '';
+    const abort = new AbortController();
+    this.generationAborts.set('chat', abort);
+    const isCurrent = () => this.generationAborts.get('chat') === abort;
+
+    // The answer is rendered as it streams in, replacing the partial message each time.
+    let streaming = false;
+    const replaceOrAppend = (message: ChatMessage) => {
+      if (!isCurrent()) return;
+      this.chatHistory.update(h => streaming ? [...h.slice(0, -1), message] : [...h, message]);
+      streaming = true;
+    };
+    const stream = {
+      signal: abort.signal,
+      onText: (text: string) => {
+        if (text) replaceOrAppend({ sender: 'bot', text: withoutFollowUps(text) });
+        else if (streaming && isCurrent()) {
+          // The model went on to call tools; drop its partial text until the next round.
+          this.chatHistory.update(h => h.slice(0, -1));
+          streaming = false;
+        }
+      },
+    };
 
     try {
-      const botResponse = await this.geminiService.getChatbotResponse(query, this.filteredAnalysisResults());
-      this.chatHistory.update(h => [...h, { sender: 'bot', text: botResponse }]);
+      await this.summarizeOlderMessages(history);
+      const conversation = chatConversation(history, this.chatMemory());
+      // The model queries the filtered answers through tools when the provider supports them.
+      const answers = this.filteredAnalysisResults();
+      const toolContext: QueryToolContext = { dimensions: this.sendableDimensions(), textOf: this.answerTextOf };
+      const answer = await this.geminiService.answerWithTools(
+        query,
+        conversation,
+        queryTools(toolContext.dimensions),
+        describeQueryData(answers, toolContext),
+        call => executeQueryTool(call, answers, toolContext),
+        stream,
+      );
+      if (!isCurrent()) return;
+      if (answer) {
+        replaceOrAppend({ ...this.botMessage(answer.text, abort.signal.aborted), queries: answer.queries });
+      } else {
+        // Follow-ups like "show me more" retrieve answers for the previous question too.
+        const previous = [...history].reverse().find(message => message.sender === 'user')?.text;
+        const context = await this.buildChatContext(previous ? `${previous} ${query}` : query);
+        const botResponse = await this.geminiService.getChatbotResponse(query, context, conversation, stream);
+        replaceOrAppend(this.botMessage(botResponse, abort.signal.aborted));
+      }
     } catch (e) {
-      this.chatHistory.update(h => [...h, { sender: 'bot', text: 'Sorry, an error occurred.' }]);
+      if (isCurrent()) this.chatHistory.update(h => [...h, { sender: 'bot', text: 'Sorry, an error occurred.' }]);
     } finally {
+      if (isCurrent()) this.generationAborts.delete('chat');
       this.isChatbotLoading.set(false);
     }
+    if (this.activeTranscriptId()) this.saveChatTranscript();
+  }
+
+  /** Stops a streaming chat answer, summary or recommendations; the text generated so far is kept. */
+  stopGeneration = (feature: 'chat' | 'summary' | 'recommendations') => {
+    this.generationAborts.get(feature)?.abort();
+  }
+
+  /** Stops every generation and discards its text, e.g. when another session is opened. */
+  private cancelGenerations = () => {
+    this.generationAborts.forEach(abort => abort.abort());
+    this.generationAborts.clear();
+  }
+
+  /** A bot answer with its follow-up questions split off and its citations checked. */
+  private botMessage = (response: string, stopped = false): ChatMessage => {
+    const { html, followUps } = extractFollowUps(response);
+    const { html: text, citations } = verifyCitations(html, this.citableAnswers);
+    if (!stopped) return { sender: 'bot', text, followUps, citations };
+    return { sender: 'bot', text: text || '<p><em>Stopped before an answer was generated.</em></p>', citations, stopped };
+  }
+
+  /** The answers of a row that a chat citation may quote, with their verbatim and translation. */
+  private citableAnswers = (rowId: number): CitableAnswer[] => {
+    const result = this.resultsById.get(rowId);
+    if (!result) return [];
+    const questions = this.mappedTextColumns();
+    return questions.flatMap((question, index) => {
+      const text = (result[question] || '').trim();
+      if (!text) return [];
+      const analysis = questionOutcome(result, question, questions[0])?.analysis;
+      return [{ ref: answerRef(rowId, index), question, texts: [text, analysis?.translation, analysis?.redacted_excerpt].filter((t): t is string => !!t) }];
+    });
+  }
+
+  citationLabel = (citation: ChatCitation) => citationStatusLabel(citation.status);
+
+  openCitation = (citation: ChatCitation) => {
+    const answers = this.resolveRefs(citation.refs);
+    if (answers.length === 0) return;
+    const note = citation.status === 'quote-not-found' ? ' (quote not found)' : '';
+    this.openVerbatimModal(`Cited: Row ${citation.row}${note}`, answers);
+  }
+
+  /** Citations are rendered inside the answer's HTML, so their clicks are handled on the message. */
+  onChatMessageClick = (message: ChatMessage, event: Event) => {
+    const cite = (event.target as HTMLElement).closest('[data-citation]');
+    const citation = cite && message.citations?.[Number(cite.getAttribute('data-citation'))];
+    if (citation) this.openCitation(citation);
+  }
+
+  unverifiedCitations = (message: ChatMessage) => (message.citations || []).filter(c => c.status !== 'verified').length;
+
+  /** Folds messages that dropped out of the recent window into the chat memory's summary. */
+  private summarizeOlderMessages = async (history: ChatMessage[]) => {
+    const memory = this.chatMemory();
+    const older = messagesToSummarize(history, memory);
+    if (!older) return;
+    try {
+      const summary = await this.geminiService.summarizeConversation(memory.summary, chatConversation(older, EMPTY_CHAT_MEMORY).turns);
+      this.chatMemory.set({ summary, summarizedCount: memory.summarizedCount + older.length });
+    } catch (err) {
+      // The unsummarized messages are still sent in full; summarizing is retried with the next question.
+      console.error('Failed to summarize the conversation:', err);
+    }
+  }
+
+  newChat = () => {
+    this.chatHistory.set([]);
+    this.chatMemory.set(EMPTY_CHAT_MEMORY);
+    this.activeTranscriptId.set(null);
+  }
+
+  /** Saves the current chat as a transcript, or updates the transcript it was opened from. */
+  saveChatTranscript = () => {
+    const messages = this.chatHistory();
+    if (messages.length === 0) return;
+    const now = new Date();
+    const id = this.activeTranscriptId();
+    if (id && this.chatTranscripts().some(t => t.id === id)) {
+      this.chatTranscripts.update(transcripts => transcripts.map(t => t.id === id ? { ...t, messages, memory: this.chatMemory(), updatedAt: now } : t));
+      return;
+    }
+    const firstQuestion = messages.find(m => m.sender === 'user')?.text || '';
+    const transcript: ChatTranscript = {
+      id: crypto.randomUUID(),
+      name: firstQuestion.length > 60 ? `${firstQuestion.slice(0, 60)}…` : firstQuestion || `Chat ${this.chatTranscripts().length + 1}`,
+      createdAt: now,
+      updatedAt: now,
+      messages,
+      memory: this.chatMemory(),
+    };
+    this.chatTranscripts.update(transcripts => [transcript, ...transcripts]);
+    this.activeTranscriptId.set(transcript.id);
+  }
+
+  openChatTranscript = (transcript: ChatTranscript) => {
+    this.chatHistory.set(transcript.messages);
+    this.chatMemory.set(transcript.memory);
+    this.activeTranscriptId.set(transcript.id);
+  }
+
+  renameChatTranscript = (transcript: ChatTranscript, event: Event) => {
+    const name = (event.target as HTMLInputElement).value.trim();
+    if (!name) return;
+    this.chatTranscripts.update(transcripts => transcripts.map(t => t.id === transcript.id ? { ...t, name } : t));
+  }
+
+  deleteChatTranscript = (transcript: ChatTranscript) => {
+    this.chatTranscripts.update(transcripts => transcripts.filter(t => t.id !== transcript.id));
+    if (this.activeTranscriptId() === transcript.id) this.activeTranscriptId.set(null);
+  }
+
+  /** Downloads a saved transcript, or the current chat, as Markdown. */
+  exportChatTranscript = (transcript?: ChatTranscript) => {
+    const name = transcript?.name || this.chatTranscripts().find(t => t.id === this.activeTranscriptId())?.name || 'Chat';
+    const markdown = transcriptToMarkdown({ name, messages: transcript?.messages ?? this.chatHistory() }, this.fileName());
+    const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_') || 'chat'}.md`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
   }
 
   onGenerateRecommendations = async () => {
@@ -300,16 +1334,23 @@ export class AppComponent {
 
     this.isGeneratingRecommendations.set(true);
     this.generatedRecommendations.set('');
+    const abort = new AbortController();
+    this.generationAborts.set('recommendations', abort);
+    const isCurrent = () => this.generationAborts.get('recommendations') === abort;
 
-    const context = this.filteredAnalysisResults().filter(r => r.analysis && r.analysis[type] === value);
+    const context = this.sendableAnswers(this.filteredAnalysisResults()).filter(r => r.analysis && r.analysis[type] === value);
     const filterDescription = `feedback with '${value}' ${type}`;
 
     try {
-      const response = await this.geminiService.generateRecommendations(context, filterDescription);
-      this.generatedRecommendations.set(response);
+      const response = await this.geminiService.generateRecommendations(context, filterDescription, {
+        signal: abort.signal,
+        onText: text => { if (isCurrent()) this.generatedRecommendations.set(text); },
+      });
+      if (isCurrent()) this.generatedRecommendations.set(response);
     } catch (e) {
-      this.generatedRecommendations.set('Sorry, an error occurred while generating recommendations.');
+      if (isCurrent()) this.generatedRecommendations.set('Sorry, an error occurred while generating recommendations.');
     } finally {
+      if (isCurrent()) this.generationAborts.delete('recommendations');
       this.isGeneratingRecommendations.set(false);
     }
   }
@@ -320,17 +1361,25 @@ export class AppComponent {
     
     const activeFilters = this.filters();
     const filterKeys = Object.keys(activeFilters).filter(key => activeFilters[key] && activeFilters[key] !== 'all');
-    let filterDescription = 'the entire dataset';
-    if (filterKeys.length > 0) {
-        filterDescription = filterKeys.map(k => `${k}: ${activeFilters[k]}`).join(', ');
-    }
+    const descriptions = filterKeys.map(k => `${k}: ${activeFilters[k]}`);
+    const language = this.languageFilter();
+    if (language) descriptions.push(`language: ${languageName(language)}`);
+    const filterDescription = descriptions.length > 0 ? descriptions.join(', ') : 'the entire dataset';
+
+    const abort = new AbortController();
+    this.generationAborts.set('summary', abort);
+    const isCurrent = () => this.generationAborts.get('summary') === abort;
 
     try {
-        const response = await this.geminiService.generateExecutiveSummary(this.filteredAnalysisResults(), filterDescription);
-        this.executiveSummary.set(response);
+        const response = await this.geminiService.generateExecutiveSummary(this.sendableAnswers(this.filteredAnalysisResults()), filterDescription, {
+          signal: abort.signal,
+          onText: text => { if (isCurrent()) this.executiveSummary.set(text); },
+        });
+        if (isCurrent()) this.executiveSummary.set(response);
     } catch (e) {
-        this.executiveSummary.set('Sorry, an error occurred while generating the summary.');
+        if (isCurrent()) this.executiveSummary.set('Sorry, an error occurred while generating the summary.');
     } finally {
+        if (isCurrent()) this.generationAborts.delete('summary');
         this.isGeneratingSummary.set(false);
     }
   }
@@ -340,8 +1389,10 @@ export class AppComponent {
     if (results.length === 0) return;
 
     const allHeaders = this.headers();
-    const analysisHeaders = ['sentiment', 'sentiment_score', 'intent', 'emotions', 'topics', 'explanation', 'confidence', 'redacted_excerpt'];
-    const headers = ['rowId', ...allHeaders, ...analysisHeaders];
+    const analysisHeaders = ['sentiment', 'sentiment_score', 'intent', 'emotions', 'topics', 'explanation', 'confidence', 'redacted_excerpt', 'language', 'translation'];
+    // With several text columns each answer gets its own line, labelled with its question.
+    const byQuestion = this.mappedTextColumns().length > 1;
+    const headers = ['rowId', ...(byQuestion ? ['question'] : []), ...allHeaders, ...analysisHeaders, 'edited_by_human'];
     
     const csvRows = [headers.join(',')];
 
@@ -357,8 +1408,10 @@ export class AppComponent {
 
     results.forEach(res => {
         const rowData: any[] = [res.rowId];
+        if (byQuestion) rowData.push(res.question);
         allHeaders.forEach(h => rowData.push(res[h]));
         analysisHeaders.forEach(ah => rowData.push(res.analysis ? res.analysis[ah as keyof typeof res.analysis] : ''));
+        rowData.push(res.aiAnalysis ? 'yes' : 'no');
         csvRows.push(rowData.map(escapeCsvCell).join(','));
     });
 
@@ -394,24 +1447,65 @@ export class AppComponent {
   }
 
   resetApp = () => {
+    this.activeQueue?.cancel();
+    this.discoveryAbort?.abort();
+    this.discoveryAbort = null;
+    this.isDiscovering.set(false);
+    this.proposedTaxonomy.set(null);
+    this.activeQueue = null;
+    this.isPaused.set(false);
+    this.currentSessionId.set(null);
+    this.loadSavedSessions();
     this.appState.set('upload');
     this.fileName.set('');
     this.error.set('');
     this.rawCsvData.set([]);
-    this.mappedTextColumn.set('');
+    this.parseReport.set(null);
+    this.workbookSheets.set([]);
+    this.pendingWorkbookFile = null;
+    this.mappedTextColumns.set([]);
     this.mappedDateColumn.set('');
     this.mappedDimensionColumns.set([]);
-    this.analysisResults.set([]);
-    this.analysisProgress.set(0);
+    this.neverSendColumns.set([]);
+    this.redaction.resetReport();
+    this.taxonomy.set(cloneTaxonomy(DEFAULT_TAXONOMY));
+    this.replaceResults([]);
+    this.answersDone.set(0);
+    this.answersTotal.set(0);
     this.isAnalyzing.set(false);
+    this.pendingRetries.set(0);
+    this.failedCount.set(0);
+    this.cacheHits.set(0);
+    this.cacheMisses.set(0);
+    this.sampleMode.set('all');
+    this.sampleDimension.set('');
+    this.sampleRowIds.set(null);
+    this.preprocessOptions.set({ ...DEFAULT_PREPROCESS_OPTIONS });
+    this.cancelGenerations();
     this.chatHistory.set([]);
+    this.chatMemory.set(EMPTY_CHAT_MEMORY);
+    this.chatTranscripts.set([]);
+    this.activeTranscriptId.set(null);
     this.filters.set({});
+    this.selectedQuestion.set(null);
+    this.languageFilter.set(null);
+    this.showTranslations.set(false);
     this.isParsing.set(false);
     this.generatedRecommendations.set('');
     this.isGeneratingRecommendations.set(false);
     this.recommendationFilterType.set('');
     this.recommendationFilterValue.set('');
     this.selectedTopic.set(null);
+    this.editingAnswer.set(null);
+    this.isReviewOpen.set(false);
+    this.reviewItems.set([]);
+    this.clearGoldLabels();
+    this.embeddings.reset();
+    this.searchQuery.set('');
+    this.searchError.set('');
+    this.themeClusters.set([]);
+    this.clusterError.set('');
+    this.clusterNotice.set('');
     this.dateFilterStart.set(null);
     this.dateFilterEnd.set(null);
     this.executiveSummary.set('');
@@ -728,36 +1822,95 @@ export class AppComponent {
         });
   }
 
-  // Computed properties
-  availableDimensions = computed(() => this.headers().filter(h => h !== this.mappedTextColumn() && h !== this.mappedDateColumn()));
-  
-  availableFilters = computed(() => {
-    const filters: { [key: string]: string[] } = {};
-    const dimensions = this.mappedDimensionColumns();
-    if (dimensions.length === 0) return {};
+  /** Reliability diagram: accuracy per confidence bin against the diagonal of perfect calibration. */
+  private drawCalibrationChart = () => {
+    const bins = this.evaluation()?.calibration?.bins.filter(b => b.count > 0) || [];
+    if (!this.calibrationChartEl) return;
+    const el = this.calibrationChartEl.nativeElement;
+    d3.select(el).selectAll('*').remove();
+    if (bins.length === 0) return;
+    const tooltip = d3.select('#tooltip');
 
-    const results = this.analysisResults();
-    dimensions.forEach(dim => {
-      const values = new Set<string>();
-      results.forEach(r => {
-        if (r[dim]) values.add(r[dim]);
-      });
-      filters[dim] = Array.from(values).sort();
+    const margin = { top: 10, right: 20, bottom: 40, left: 50 };
+    const width = el.clientWidth - margin.left - margin.right;
+    const height = el.clientHeight - margin.top - margin.bottom;
+
+    const svg = d3.select(el)
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const x = d3.scaleLinear().domain([0, 100]).range([0, width]);
+    const y = d3.scaleLinear().domain([0, 100]).range([height, 0]);
+
+    const xAxis = svg.append('g')
+      .attr('transform', `translate(0, ${height})`)
+      .call(d3.axisBottom(x).ticks(5).tickFormat(d => `${d}%`));
+    const yAxis = svg.append('g').call(d3.axisLeft(y).ticks(5).tickFormat(d => `${d}%`));
+    [xAxis, yAxis].forEach(axis => {
+      axis.selectAll('path, line').style('stroke', '#cbd5e1');
+      axis.selectAll('text').style('fill', '#475569');
     });
-    return filters;
-  });
+    svg.append('text')
+      .attr('x', width / 2).attr('y', height + 35)
+      .attr('text-anchor', 'middle').style('font-size', '12px').style('fill', '#475569')
+      .text('Model confidence');
+    svg.append('text')
+      .attr('transform', 'rotate(-90)').attr('x', -height / 2).attr('y', -38)
+      .attr('text-anchor', 'middle').style('font-size', '12px').style('fill', '#475569')
+      .text('Actual accuracy');
+
+    svg.append('line')
+      .attr('x1', x(0)).attr('y1', y(0)).attr('x2', x(100)).attr('y2', y(100))
+      .attr('stroke', '#94a3b8').attr('stroke-dasharray', '4 4');
+
+    svg.append('path')
+      .datum(bins)
+      .attr('fill', 'none')
+      .attr('stroke', this.chartColors[0])
+      .attr('stroke-width', 2)
+      .attr('d', d3.line<typeof bins[number]>().x(d => x(d.meanConfidence)).y(d => y(d.accuracy)));
+
+    const maxCount = d3.max(bins, d => d.count) || 1;
+    svg.selectAll('.bin')
+      .data(bins)
+      .enter()
+      .append('circle')
+        .attr('cx', d => x(d.meanConfidence))
+        .attr('cy', d => y(d.accuracy))
+        .attr('r', d => 3 + 5 * Math.sqrt(d.count / maxCount))
+        .attr('fill', this.chartColors[0])
+        .on('mouseover', (event, d) => {
+            tooltip.style('display', 'block')
+                   .html(`<strong>Confidence ${d.lower}–${d.upper}%</strong><br>${d.count} answer(s), ${d.accuracy.toFixed(0)}% correct`);
+        })
+        .on('mousemove', (event) => {
+            tooltip.style('left', (event.pageX + 15) + 'px')
+                   .style('top', (event.pageY - 28) + 'px');
+        })
+        .on('mouseout', () => {
+            tooltip.style('display', 'none');
+        });
+  }
 
-  minDate = computed(() => {
-    const dates = this.analysisResults().map(r => r.date).filter((d): d is Date => !!d);
-    if (dates.length === 0) return null;
-    return new Date(Math.min(...dates.map(d => d.getTime())));
-  });
+  // Computed properties
+  availableDimensions = computed(() => this.headers().filter(h => !this.mappedTextColumns().includes(h) && h !== this.mappedDateColumn()));
   
-  maxDate = computed(() => {
-      const dates = this.analysisResults().map(r => r.date).filter((d): d is Date => !!d);
-      if (dates.length === 0) return null;
-      return new Date(Math.max(...dates.map(d => d.getTime())));
-  });
+  // Filtered counts, topic tree and trend series are computed in the data worker; see requestAggregates.
+  aggregates = signal<DashboardAggregates>(EMPTY_AGGREGATES);
+  private aggregateRequest: Promise<void> | null = null;
+  private aggregateQueued = false;
+
+  availableFilters = computed(() => this.aggregates().availableFilters);
+  availableLanguages = computed(() => this.aggregates().availableLanguages);
+  minDate = computed(() => this.aggregates().minDate);
+  maxDate = computed(() => this.aggregates().maxDate);
+
+  /** The answer as shown in the table and modal: its English translation when toggled on and available. */
+  verbatimOf = (result: AnalysisResult): string => {
+    const analysis = result.analysis;
+    if (this.showTranslations() && analysis?.translation) return analysis.translation;
+    return analysis?.redacted_excerpt ?? result[result.question || this.mappedTextColumn()] ?? '';
+  }
 
   dateToInputFormat = (date: Date | null): string => {
       if (!date) return '';
@@ -766,172 +1919,161 @@ export class AppComponent {
 
   filteredAnalysisResults = computed(() => {
     const results = this.analysisResults();
-    const activeFilters = this.filters();
-    const filterKeys = Object.keys(activeFilters).filter(key => activeFilters[key] && activeFilters[key] !== 'all');
-    const startDate = this.dateFilterStart();
-    const endDate = this.dateFilterEnd();
-
-    if (filterKeys.length === 0 && !startDate && !endDate) return results;
-
-    return results.filter(r => {
-      const dimensionMatch = filterKeys.every(key => r[key] === activeFilters[key]);
-      if (!dimensionMatch) return false;
-
-      if (startDate && (!r.date || r.date < startDate)) {
-        return false;
-      }
-      if (endDate && (!r.date || r.date > endDate)) {
-        return false;
-      }
-
-      return true;
-    });
+    const refs = this.aggregates().filteredRefs;
+    if (!refs) return results;
+    return this.resolveRefs(refs);
   });
-  
-  sentimentCounts = computed(() => this.getCounts(this.filteredAnalysisResults(), 'sentiment'));
+
+  sentimentCounts = computed(() => this.aggregates().sentimentCounts);
   sentimentTotal = computed(() => this.sentimentCounts().reduce((acc, curr) => acc + curr[1], 0));
-  intentCounts = computed(() => this.getCounts(this.filteredAnalysisResults(), 'intent'));
-  topicCounts = computed(() => {
-    const counts: { [key: string]: number } = {};
-    this.filteredAnalysisResults().forEach(r => {
-      const mainTopic = r.analysis?.topics?.[0];
-      if (mainTopic) {
-        counts[mainTopic] = (counts[mainTopic] || 0) + 1;
-      }
-    });
-    const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
-    return sorted.slice(0, 10).reverse();
-  });
-  
-  topicChartData = computed(() => {
-    const topic = this.selectedTopic();
-    if (!topic) {
-        return this.topicCounts();
-    }
+  intentCounts = computed(() => this.aggregates().intentCounts);
+  topicChartData = computed(() => this.aggregates().topicChartData);
 
-    const subTopicCounts: { [key: string]: number } = {};
-    this.filteredAnalysisResults().forEach(r => {
-        if (r.analysis?.topics?.[0] === topic && r.analysis.topics.length > 1) {
-            const subTopic = r.analysis.topics[1];
-            subTopicCounts[subTopic] = (subTopicCounts[subTopic] || 0) + 1;
-        }
-    });
-    const sorted = Object.entries(subTopicCounts).sort((a, b) => b[1] - a[1]);
-    return sorted.slice(0, 10).reverse();
-  });
-  
   intentMap: Signal<Map<string, AnalysisResult[]>> = computed(() => {
-    const map = new Map<string, AnalysisResult[]>();
-    this.filteredAnalysisResults().forEach(r => {
-      const intent = r.analysis?.intent;
-      if (intent) {
-        if (!map.has(intent)) {
-          map.set(intent, []);
-        }
-        map.get(intent)!.push(r);
-      }
-    });
-    return map;
+    const groups = this.aggregates().intentRefs;
+    return new Map(Object.entries(groups).map(([intent, refs]) => [intent, this.resolveRefs(refs)]));
   });
 
   topicTree: Signal<TopicNode[]> = computed(() => {
-    const root: { [key: string]: TopicNode } = {};
-    const results = this.filteredAnalysisResults();
-
-    results.forEach(r => {
-      if (!r.analysis || !r.analysis.topics || r.analysis.topics.length === 0) return;
-
-      let currentLevel = root;
-      let parentNode: TopicNode | null = null;
-      
-      r.analysis.topics.forEach((topicName, index) => {
-        if (!currentLevel[topicName]) {
-          currentLevel[topicName] = { name: topicName, count: 0, responses: [], subTopics: [], expanded: false };
-           if(parentNode) {
-            if (!parentNode.subTopics.some(st => st.name === topicName)) {
-               parentNode.subTopics.push(currentLevel[topicName]);
-            }
-          }
-        }
-        
-        const node = currentLevel[topicName];
-        node.count++;
-        node.responses.push(r);
-        parentNode = node;
-      });
-    });
-    
-    const topLevelTopics = new Set(results.map(r => r.analysis?.topics[0]).filter(Boolean));
-    return Array.from(topLevelTopics).map(topicName => root[topicName!]).filter(Boolean).sort((a,b) => b.count - a.count);
+    const previous = untracked(() => this.topicTreeNodes);
+    const toNode = (summary: TopicSummary, siblings: TopicNode[]): TopicNode => {
+      const before = siblings.find(n => n.name === summary.name);
+      return {
+        name: summary.name,
+        count: summary.count,
+        responses: this.resolveRefs(summary.refs),
+        subTopics: summary.subTopics.map(sub => toNode(sub, before?.subTopics || [])),
+        // Keep topics the user expanded open while results stream in.
+        expanded: before?.expanded || false,
+      };
+    };
+    this.topicTreeNodes = this.aggregates().topicTree.map(summary => toNode(summary, previous));
+    return this.topicTreeNodes;
+  });
+  private topicTreeNodes: TopicNode[] = [];
+
+  totalResponses: Signal<number> = computed(() => this.aggregates().totalResponses);
+  // Rows still missing an outcome for at least one of the mapped questions.
+  unanalyzedRowCount = computed(() => {
+    const questions = this.mappedTextColumns();
+    const complete = this.analysisResults().filter(r => questions.every(q => questionOutcome(r, q, questions[0]))).length;
+    return Math.max(0, this.rows().length - complete);
   });
 
+  /** Projected tokens, cost and duration for the run as currently configured on the mapping screen. */
+  runEstimate: Signal<RunEstimate | null> = computed(() => {
+    const textIndexes = this.mappedTextColumns().map(column => this.headers().indexOf(column)).filter(i => i >= 0);
+    if (textIndexes.length === 0) return null;
+    const rows = this.rows();
+    const totalChars = rows.reduce((sum, row) => textIndexes.reduce((rowSum, i) => rowSum + (row[i] || '').length, sum), 0);
+    const rowCount = this.sampleMode() === 'all' ? rows.length : Math.min(this.sampleSize(), rows.length);
+    const textChars = rows.length > 0 ? Math.round(totalChars / rows.length * rowCount) : 0;
+    // Every question is classified separately, so each one is a request item of its own.
+    const answerCount = rowCount * textIndexes.length;
+    const usage = this.geminiService.estimateAnalysisUsage(answerCount, textChars, this.taxonomy(), this.batchSize());
+    return estimateRun(answerCount, usage, this.queueOptions(), pricingFor(this.providerConfig()));
+  });
+  trendData = computed(() => this.aggregates().trendData);
+
+  reviewCandidates = computed(() => this.filteredAnalysisResults().filter(r =>
+    !!r.analysis && !r.reviewedAt && (!!r.flagged || r.analysis.confidence < this.lowConfidence)));
+
+  // Re-resolved after every change so the review modal shows the saved correction.
+  currentReview = computed(() => {
+    this.analysisResults();
+    const item = this.reviewItems()[this.reviewIndex()];
+    const result = item && this.resultsById.get(item.rowId);
+    if (!result) return null;
+    const questions = this.mappedTextColumns();
+    return viewForQuestion(result, questions, Math.max(0, questions.indexOf(item.question)));
+  });
 
-  totalResponses: Signal<number> = computed(() => this.filteredAnalysisResults().length);
-  
-  trendData = computed(() => {
-    if (!this.mappedDateColumn()) return null;
-    const results = this.filteredAnalysisResults().filter((r): r is AnalysisResult & { date: Date } => !!r.date && !!r.analysis);
-    if (results.length === 0) return null;
-
-    const periodFunc = {
-      day: d3.timeDay,
-      week: d3.timeWeek,
-      month: d3.timeMonth,
-    }[this.trendChartPeriod()];
-
-    const groupBy = this.trendChartGroupBy();
-
-    const allKeys = Array.from(new Set(results.flatMap(r => {
-        if (!r.analysis) return [];
-        const value = r.analysis[groupBy as keyof typeof r.analysis];
-        return Array.isArray(value) ? value : [value];
-    }).filter(Boolean))) as string[];
-    allKeys.sort();
-
-    const dataByDate = d3.rollup(results,
-      (v: (AnalysisResult & { date: Date })[]) => {
-        const counts = new Map<string, number>();
-        allKeys.forEach(key => counts.set(key, 0));
-        
-        v.forEach(d => {
-            if (!d.analysis) return;
-            const values = d.analysis[groupBy as keyof typeof d.analysis];
-            if (Array.isArray(values)) {
-                values.forEach(val => {
-                    if (counts.has(val)) {
-                        counts.set(val, counts.get(val)! + 1);
-                    }
-                });
-            } else if (values && counts.has(values as string)) {
-                counts.set(values as string, counts.get(values as string)! + 1);
-            }
-        });
-        return counts;
-      },
-      d => periodFunc.floor(d.date)
-    );
-    
-    const sortedDates = Array.from(dataByDate.keys()).sort(d3.ascending);
-    
-    const stackedData = sortedDates.map(date => {
-        const counts = dataByDate.get(date)!;
-        const entry: {[key: string]: any} = { date };
-        counts.forEach((value, key) => { entry[key] = value; });
-        return entry;
-    });
+  // Scored against every answer, regardless of the dashboard filters.
+  evaluation = computed<EvaluationReport | null>(() => this.goldLabels().length > 0
+    ? evaluateAgainstGold(this.goldLabels(), this.analysisResults(), this.mappedTextColumns())
+    : null);
+  evaluationTables = computed(() => {
+    const evaluation = this.evaluation();
+    if (!evaluation) return [];
+    return [
+      { title: 'Sentiment', report: evaluation.sentiment },
+      { title: 'Intent', report: evaluation.intent },
+      { title: 'Main topic', report: evaluation.mainTopic },
+    ].filter(table => table.report !== null).map(table => ({ title: table.title, report: table.report! }));
+  });
 
-    const series = allKeys.map(key => ({
-        name: key,
-        values: sortedDates.map(date => {
-          const counts = dataByDate.get(date);
-          const value = counts ? (counts.get(key) || 0) : 0;
-          return { date, value };
-        })
+  redactionProblems = computed(() => validateRedactionSettings(this.redactionSettings()));
+
+  /** What the current redaction settings would mask in the first answers of the mapped text columns. */
+  redactionPreview = computed(() => {
+    const PREVIEW_ROWS = 200;
+    const textIndexes = this.mappedTextColumns().map(column => this.headers().indexOf(column)).filter(i => i >= 0);
+    const redact = createRedactor(this.redactionSettings());
+    const counts: { [label: string]: number } = {};
+    let texts = 0;
+    this.rows().slice(0, PREVIEW_ROWS).forEach(row => textIndexes.forEach(i => {
+      texts++;
+      const result = redact(row[i] || '');
+      Object.entries(result.counts).forEach(([label, count]) => counts[label] = (counts[label] || 0) + count);
     }));
+    return { texts, counts: Object.entries(counts) };
+  });
 
-    return { series, dates: sortedDates, keys: allKeys, stackedData };
+  /** Pre-processing exclusions by reason, for the summary panels. */
+  exclusionSummary = computed(() => {
+    const groups = this.aggregates().excludedRefs;
+    return (Object.keys(groups) as ExclusionReason[]).map(reason => ({ reason, refs: groups[reason]! }));
   });
+  excludedCount = computed(() => this.exclusionSummary().reduce((sum, group) => sum + group.refs.length, 0));
+
+  openExcludedModal = (reason: ExclusionReason, refs: number[]) =>
+    this.openVerbatimModal(`Excluded: ${EXCLUSION_LABELS[reason]}`, this.resolveRefs(refs));
+
+  /** Results for answer refs from the worker, as seen through each ref's question. */
+  private resolveRefs = (refs: number[]): AnalysisResult[] => {
+    const questions = this.mappedTextColumns();
+    return refs.map(ref => {
+      const { rowId, questionIndex } = parseAnswerRef(ref);
+      const result = this.resultsById.get(rowId);
+      return result ? viewForQuestion(result, questions, questionIndex) : null;
+    }).filter((r): r is AnalysisResult => !!r);
+  }
 
+  private dashboardQuery = (): DashboardQuery => ({
+    filters: this.filters(),
+    dateStart: this.dateFilterStart(),
+    dateEnd: this.dateFilterEnd(),
+    language: this.languageFilter(),
+    dimensions: this.mappedDimensionColumns(),
+    selectedTopic: this.selectedTopic(),
+    trendGroupBy: this.trendChartGroupBy(),
+    trendPeriod: this.trendChartPeriod(),
+    includeTrend: !!this.mappedDateColumn(),
+    questions: this.mappedTextColumns(),
+    question: this.selectedQuestion(),
+  });
+
+  /**
+   * Asks the worker for fresh aggregates. While a request is in flight further
+   * calls are coalesced into one follow-up, so a fast stream of results costs
+   * at most one aggregation pass at a time.
+   */
+  private requestAggregates = () => {
+    if (this.aggregateRequest) {
+      this.aggregateQueued = true;
+      return;
+    }
+    this.aggregateRequest = this.dataWorker.aggregate(untracked(this.dashboardQuery))
+      .then(aggregates => this.aggregates.set(aggregates))
+      .catch(err => console.error('Failed to aggregate results:', err))
+      .finally(() => {
+        this.aggregateRequest = null;
+        if (this.aggregateQueued) {
+          this.aggregateQueued = false;
+          this.requestAggregates();
+        }
+      });
+  }
 
   constructor() {
     effect(() => {
@@ -940,10 +2082,31 @@ export class AppComponent {
       this.trendChartGroupBy();
       this.trendChartPeriod();
       this.selectedTopic();
+      this.evaluation();
       
-      if (this.appState() === 'results' && this.filteredAnalysisResults()) {
+      if (this.appState() === 'results' && this.aggregates()) {
         setTimeout(() => this.drawCharts(), 50);
       }
     }, { allowSignalWrites: true });
+
+    effect(() => {
+      this.analysisResults();
+      this.dashboardQuery();
+      untracked(this.requestAggregates);
+    });
+
+    effect(() => {
+      // Keep the saved session's chat and summary in step with the dashboard.
+      this.chatHistory();
+      this.chatTranscripts();
+      this.executiveSummary();
+      // Streaming rewrites these on every piece of text; the session is saved once generation ends.
+      if (this.isChatbotLoading() || this.isGeneratingSummary()) return;
+      if (this.appState() === 'results') {
+        untracked(() => this.persistSession());
+      }
+    });
+
+    this.loadSavedSessions();
   }
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+import type { AnalysisResult } from './gemini.service';
+import { Counts, countField } from './aggregation';
+import { stratifiedSample } from './sampling';
+
+// Most relevant answers quoted to the chat model, and how much of each.
+export const CHAT_EXCERPT_LIMIT = 60;
+const EXCERPT_CHARS = 400;
+
+export interface ChatExcerpt {
+  row: number;
+  question?: string;
+  text: string;
+  translation?: string;
+  sentiment?: string;
+  intent?: string;
+  topics?: string[];
+  confidence?: number;
+}
+
+/**
+ * What the chat model sees: exact statistics over every filtered answer,
+ * computed locally, plus the answers most relevant to the question.
+ */
+export interface ChatContext {
+  stats: {
+    answers: number; // Filtered answers, classified or not
+    classified: number;
+    sentiment: Counts;
+    intent: Counts;
+    mainTopics: Counts;
+    subTopics: Counts; // "Main topic > Sub-topic"
+    emotions: Counts;
+    languages: Counts;
+    sentimentByTopic: { [mainTopic: string]: Counts };
+    dimensions: { [dimension: string]: Counts };
+    questions?: Counts; // Only when several text columns were analyzed
+  };
+  retrieval: 'semantic' | 'keyword';
+  excerpts: ChatExcerpt[];
+}
+
+const tally = (values: (string | undefined)[]): Counts => {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+/** Exact counts over all answers; dimension counts are capped to the 25 most common values. */
+export const chatStatistics = (answers: AnalysisResult[], dimensions: string[], multiQuestion: boolean): ChatContext['stats'] => {
+  const classified = answers.filter(a => a.analysis);
+  const byTopic = new Map<string, AnalysisResult[]>();
+  classified.forEach(a => {
+    const topic = a.analysis!.topics[0];
+    if (!topic) return;
+    if (!byTopic.has(topic)) byTopic.set(topic, []);
+    byTopic.get(topic)!.push(a);
+  });
+  return {
+    answers: answers.length,
+    classified: classified.length,
+    sentiment: countField(classified, 'sentiment'),
+    intent: countField(classified, 'intent'),
+    mainTopics: tally(classified.map(a => a.analysis!.topics[0])),
+    subTopics: tally(classified.map(a => a.analysis!.topics.length > 1 ? `${a.analysis!.topics[0]} > ${a.analysis!.topics[1]}` : undefined)),
+    emotions: tally(classified.flatMap(a => a.analysis!.emotions)),
+    languages: tally(classified.map(a => a.analysis!.language)),
+    sentimentByTopic: Object.fromEntries(Array.from(byTopic.entries()).map(([topic, group]) => [topic, countField(group, 'sentiment')])),
+    dimensions: Object.fromEntries(dimensions.map(dimension => [dimension, tally(answers.map(a => a[dimension] ? String(a[dimension]) : undefined)).slice(0, 25)])),
+    ...(multiQuestion ? { questions: tally(answers.map(a => a.question)) } : {}),
+  };
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'are', 'was', 'were', 'what', 'which', 'who', 'how', 'why', 'when', 'did', 'does', 'about', 'with', 'that', 'this', 'they', 'their', 'there', 'from', 'have', 'has', 'our', 'any', 'all', 'most', 'more', 'many', 'much', 'say', 'says', 'said', 'customers', 'customer', 'people', 'users', 'responses', 'feedback', 'main', 'top', 'common', 'tell', 'show', 'give']);
+
+const termsOf = (text: string): string[] =>
+  ((text || '').toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+
+/**
+ * BM25 ranking of documents against a query. Returns the indexes of documents
+ * sharing at least one term with the query, best first.
+ */
+export const rankByKeywords = (query: string, documents: string[]): number[] => {
+  const queryTerms = Array.from(new Set(termsOf(query)));
+  if (queryTerms.length === 0) return [];
+  const docs = documents.map(termsOf);
+  const averageLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(1, docs.length);
+  const documentFrequency = new Map(queryTerms.map(term => [term, docs.filter(d => d.includes(term)).length]));
+  const k1 = 1.2;
+  const b = 0.75;
+  return docs
+    .map((terms, index) => {
+      let score = 0;
+      queryTerms.forEach(term => {
+        const frequency = terms.filter(t => t === term).length;
+        if (frequency === 0) return;
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * terms.length / Math.max(1, averageLength)));
+      });
+      return { index, score };
+    })
+    .filter(d => d.score > 0)
+    .sort((x, y) => y.score - x.score)
+    .map(d => d.index);
+}
+
+/** Text an answer is searched by: its wording, English translation and labels. */
+export const searchableText = (answer: AnalysisResult, text: string): string =>
+  [text, answer.analysis?.translation, ...(answer.analysis?.topics || []), answer.analysis?.intent].filter(Boolean).join(' ');
+
+/**
+ * Picks the excerpts for the chat model: the ranked answers first, then a
+ * sample spread across main topics so a broad question still sees every theme.
+ */
+export const selectExcerpts = (answers: AnalysisResult[], ranked: AnalysisResult[], textOf: (a: AnalysisResult) => string, limit = CHAT_EXCERPT_LIMIT): ChatExcerpt[] => {
+  const chosen = ranked.slice(0, limit);
+  if (chosen.length < limit) {
+    const taken = new Set(chosen);
+    const rest = answers.filter(a => a.analysis && !taken.has(a));
+    chosen.push(...stratifiedSample(rest, limit - chosen.length, a => a.analysis?.topics[0] || ''));
+  }
+  return chosen.map(answer => {
+    const analysis = answer.analysis;
+    const text = textOf(answer);
+    return {
+      row: answer.rowId,
+      ...(answer.question ? { question: answer.question } : {}),
+      text: text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text,
+      ...(analysis?.translation && analysis.translation !== text ? { translation: analysis.translation.slice(0, EXCERPT_CHARS) } : {}),
+      sentiment: analysis?.sentiment,
+      intent: analysis?.intent,
+      topics: analysis?.topics,
+      confidence: analysis?.confidence,
+    };
+  });
+}
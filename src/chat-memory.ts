@@ -0,0 +1,100 @@
+import type { ChatMessage } from './gemini.service';
+
+// Latest messages sent verbatim with each question; older ones are folded into a summary.
+export const CHAT_RECENT_MESSAGES = 6;
+// How many messages may pile up beyond the recent ones before they are summarized.
+const SUMMARIZE_AFTER = 6;
+const TURN_CHARS = 1500;
+
+/** A running summary of the messages before `summarizedCount` in the chat history. */
+export interface ChatMemory {
+  summary: string;
+  summarizedCount: number;
+}
+
+export const EMPTY_CHAT_MEMORY: ChatMemory = { summary: '', summarizedCount: 0 };
+
+/** What the chat model is told about the conversation before the current question. */
+export interface ChatConversation {
+  summary: string;
+  turns: { sender: ChatMessage['sender']; text: string }[]; // Plain text, oldest first
+}
+
+/** A saved chat, kept with its session. */
+export interface ChatTranscript {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ChatMessage[];
+  memory: ChatMemory;
+}
+
+const ENTITIES: { [entity: string]: string } = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ' };
+
+/** Readable plain text of a bot answer: block elements become line breaks, list items dashes. */
+export const htmlToText = (html: string): string =>
+  (html || '')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h\d|ul|ol)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity])
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+
+const FOLLOW_UPS = /<ul[^>]*class=["']?follow-ups["']?[^>]*>([\s\S]*?)<\/ul>/i;
+
+/** Splits the suggested follow-up questions (a `<ul class="follow-ups">` list) off a bot answer. */
+export const extractFollowUps = (html: string): { html: string; followUps: string[] } => {
+  const match = FOLLOW_UPS.exec(html || '');
+  if (!match) return { html, followUps: [] };
+  const followUps = Array.from(match[1].matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi))
+    .map(item => htmlToText(item[1]))
+    .filter(Boolean)
+    .slice(0, 3);
+  return { html: html.replace(match[0], '').trim(), followUps };
+}
+
+/** A streamed answer without its follow-up list, which is shown as buttons once complete. */
+export const withoutFollowUps = (html: string): string => {
+  const start = (html || '').search(/<ul[^>]*class=["']?follow-ups/i);
+  return start < 0 ? html : html.slice(0, start);
+}
+
+/** The messages to fold into the summary now, or null while the unsummarized backlog is small. */
+export const messagesToSummarize = (history: ChatMessage[], memory: ChatMemory): ChatMessage[] | null => {
+  const end = history.length - CHAT_RECENT_MESSAGES;
+  return end - memory.summarizedCount >= SUMMARIZE_AFTER ? history.slice(memory.summarizedCount, end) : null;
+}
+
+/** The conversation before the current question: the summary plus every message it does not cover. */
+export const chatConversation = (history: ChatMessage[], memory: ChatMemory): ChatConversation => ({
+  summary: memory.summary,
+  turns: history.slice(memory.summarizedCount).map(message => {
+    const text = message.sender === 'bot' ? htmlToText(message.text) : message.text;
+    return { sender: message.sender, text: text.length > TURN_CHARS ? `${text.slice(0, TURN_CHARS)}…` : text };
+  }),
+});
+
+/** Markdown export of a transcript, including the sources and queries behind each answer. */
+export const transcriptToMarkdown = (transcript: Pick<ChatTranscript, 'name' | 'messages'>, fileName: string): string => {
+  const lines = [`# ${transcript.name}`, '', `Data: ${fileName}`, `Exported: ${new Date().toISOString()}`, ''];
+  transcript.messages.forEach(message => {
+    if (message.sender === 'user') {
+      lines.push(`## ${message.text}`, '');
+      return;
+    }
+    lines.push(htmlToText(message.text), '');
+    if (message.citations?.length) {
+      lines.push(`Sources: ${message.citations.map(c => `Row ${c.row}${c.status === 'verified' ? '' : ` (unverified: ${c.status.replace(/-/g, ' ')})`}`).join(', ')}`, '');
+    }
+    if (message.queries?.length) {
+      lines.push('Queries run:', ...message.queries.map(query => `- \`${query.description}\` → ${query.summary}`), '');
+    }
+    if (message.followUps?.length) {
+      lines.push('Suggested follow-ups:', ...message.followUps.map(followUp => `- ${followUp}`), '');
+    }
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { CitableAnswer, quoteAppearsIn, verifyCitations } from './citations';
+
+const rows: { [row: number]: CitableAnswer[] } = {
+  2: [{ ref: 128, question: 'Comments', texts: ['The delivery was late, and nobody called me at 555-0100.'] }],
+  3: [
+    { ref: 192, question: 'Comments', texts: ['Great prices'] },
+    { ref: 193, question: 'Support', texts: ['El soporte fue lento', 'Support was slow'] },
+  ],
+};
+const answersInRow = (row: number) => rows[row] ?? [];
+
+describe('quoteAppearsIn', () => {
+  it('ignores case, punctuation and accents', () => {
+    expect(quoteAppearsIn('delivery was LATE and nobody', 'The delivery was late, and nobody called')).toBe(true);
+    expect(quoteAppearsIn('cafe', 'Un café')).toBe(true);
+  });
+
+  it('treats ellipses and redaction placeholders as gaps, in order', () => {
+    expect(quoteAppearsIn('delivery … called me at [PHONE]', 'The delivery was late, and nobody called me at 555-0100.')).toBe(true);
+    expect(quoteAppearsIn('called me... delivery', 'The delivery was late, and nobody called me')).toBe(false);
+  });
+
+  it('does not match a quote made only of gaps', () => {
+    expect(quoteAppearsIn('…', 'Anything')).toBe(false);
+    expect(quoteAppearsIn('[EMAIL] ... [PHONE]', 'Anything')).toBe(false);
+    expect(quoteAppearsIn('', 'Anything')).toBe(false);
+  });
+});
+
+describe('verifyCitations', () => {
+  it('marks each citation with its status and the answers it points at', () => {
+    const { html, citations } = verifyCitations(
+      '<p><cite data-row="2">"delivery was late"</cite>, <cite data-row="3" data-question="Support">support was slow</cite>, '
+        + '<cite data-row="3">never said</cite>, <cite data-row="9">made up</cite>, <cite data-row="2">…</cite></p>',
+      answersInRow,
+    );
+    expect(citations.map(c => [c.row, c.status, c.refs])).toEqual([
+      [2, 'verified', [128]],
+      [3, 'verified', [193]],
+      [3, 'quote-not-found', [192, 193]],
+      [9, 'unknown-row', []],
+      [2, 'quote-not-found', [128]],
+    ]);
+    expect(html).toContain('<cite data-citation="0"');
+    expect(html).toContain('[Row 9 ⚠]');
+  });
+});
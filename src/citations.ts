@@ -0,0 +1,92 @@
+import { htmlToText } from './chat-memory';
+
+export type CitationStatus = 'verified' | 'unknown-row' | 'quote-not-found';
+
+/** A `<cite data-row="…">` in a chat answer, checked against the analysis results. */
+export interface ChatCitation {
+  row: number;
+  question?: string;
+  quote: string; // Empty when the answer only cites the row, which leaves it unverified
+  status: CitationStatus;
+  refs: number[]; // Answers to show for the citation: the matching one, or every answer in the row
+}
+
+/** One answer a citation may point at: its ref and the texts a quote may come from (verbatim, translation). */
+export interface CitableAnswer {
+  ref: number;
+  question: string;
+  texts: string[];
+}
+
+const CITE = /<cite\b([^>]*)>([\s\S]*?)<\/cite>/gi;
+
+// Redaction placeholders such as [EMAIL] stand for text the model never saw, so they match anything.
+const GAP = /\.{3}|…|\[[A-Z][A-Z_ ]*\]/;
+
+const normalize = (text: string): string =>
+  ` ${(text || '').toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+
+const attribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attributes);
+  return match ? htmlToText(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Whether `quote` appears in `text`, ignoring case, punctuation and elided or
+ * redacted parts. A quote that is nothing but gaps appears nowhere.
+ */
+export const quoteAppearsIn = (quote: string, text: string): boolean => {
+  const haystack = normalize(text);
+  const parts = quote.split(GAP).map(part => normalize(part).trim()).filter(Boolean);
+  if (parts.length === 0) return false;
+  let from = 0;
+  for (const part of parts) {
+    const at = haystack.indexOf(part, from);
+    if (at < 0) return false;
+    from = at + part.length;
+  }
+  return true;
+}
+
+const STATUS_LABELS: { [status in CitationStatus]: string } = {
+  'verified': 'Verified source',
+  'unknown-row': 'This row does not exist in the data',
+  'quote-not-found': 'This quote does not appear in the cited row',
+};
+
+const STATUS_CLASSES: { [status in CitationStatus]: string } = {
+  'verified': 'cursor-pointer text-indigo-700 underline decoration-dotted',
+  'unknown-row': 'cursor-not-allowed text-red-700 bg-red-50 line-through',
+  'quote-not-found': 'cursor-pointer text-amber-800 bg-amber-50 underline decoration-wavy',
+};
+
+/**
+ * Checks every `<cite>` in a bot answer against the answers of the cited row
+ * and marks it up with its status; `data-citation` holds the index into
+ * `citations` so clicks on the rendered answer can open the cited answers.
+ */
+export const verifyCitations = (html: string, answersInRow: (row: number) => CitableAnswer[]): { html: string; citations: ChatCitation[] } => {
+  const citations: ChatCitation[] = [];
+  const marked = (html || '').replace(CITE, (_, attributes: string, inner: string) => {
+    const row = Number(attribute(attributes, 'data-row'));
+    const question = attribute(attributes, 'data-question') || undefined;
+    const quote = htmlToText(inner).replace(/^["“”']+|["“”']+$/g, '').trim();
+    const candidates = Number.isInteger(row) ? answersInRow(row) : [];
+    const inQuestion = question ? candidates.filter(c => c.question === question) : [];
+    const scope = inQuestion.length > 0 ? inQuestion : candidates;
+    const match = scope.find(c => c.texts.some(text => quoteAppearsIn(quote, text)));
+    const status: CitationStatus = candidates.length === 0 ? 'unknown-row' : match ? 'verified' : 'quote-not-found';
+    const index = citations.push({
+      row: Number.isInteger(row) ? row : NaN,
+      ...(question ? { question } : {}),
+      quote,
+      status,
+      refs: match ? [match.ref] : scope.map(c => c.ref),
+    }) - 1;
+    const flag = status === 'verified' ? '' : ' ⚠';
+    return `<cite data-citation="${index}" class="not-italic ${STATUS_CLASSES[status]}" title="${STATUS_LABELS[status]}">${inner}<sup class="ml-0.5 text-xs">[Row ${Number.isInteger(row) ? row : '?'}${flag}]</sup></cite>`;
+  });
+  return { html: marked, citations };
+}
+
+export const citationStatusLabel = (status: CitationStatus): string => STATUS_LABELS[status];
@@ -0,0 +1,63 @@
+import { Injectable } from '@angular/core';
+import { AnalysisResult, CLASSIFICATION_PROMPT_VERSION } from './gemini.service';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+import { Taxonomy, taxonomyToPrompt } from './taxonomy';
+
+type Analysis = NonNullable<AnalysisResult['analysis']>;
+
+interface CacheEntry {
+  key: string;
+  analysis: Analysis;
+  createdAt: Date;
+}
+
+/** Collapses whitespace and Unicode variants so trivially different copies of a response share an entry. */
+export const normalizeResponseText = (text: string): string =>
+  (text || '').normalize('NFKC').replace(/\s+/g, ' ').trim();
+
+/**
+ * Stores classifications in IndexedDB keyed by a SHA-256 of the normalized
+ * response text, the taxonomy as it appears in the prompt, the prompt version
+ * and the model, so re-uploads and later survey waves reuse earlier results.
+ */
+@Injectable({ providedIn: 'root' })
+export class ClassificationCacheService {
+
+  /** Returns a function that computes cache keys for one taxonomy and model. */
+  keyer(taxonomy: Taxonomy, model: string): (text: string) => Promise<string> {
+    const context = JSON.stringify([CLASSIFICATION_PROMPT_VERSION, model, taxonomyToPrompt(taxonomy)]);
+    return async (text: string) => {
+      const bytes = new TextEncoder().encode(`${context}\n${normalizeResponseText(text)}`);
+      const digest = await crypto.subtle.digest('SHA-256', bytes);
+      return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    };
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, Analysis>> {
+    const db = await openDatabase();
+    const store = db.transaction('classificationCache').objectStore('classificationCache');
+    const entries = await Promise.all(keys.map(key => promisifyRequest<CacheEntry | undefined>(store.get(key))));
+    const found = new Map<string, Analysis>();
+    entries.forEach(entry => {
+      if (entry) found.set(entry.key, entry.analysis);
+    });
+    return found;
+  }
+
+  async putMany(entries: { key: string; analysis: Analysis }[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction('classificationCache', 'readwrite');
+    const store = tx.objectStore('classificationCache');
+    const createdAt = new Date();
+    entries.forEach(({ key, analysis }) => store.put({ key, analysis, createdAt } satisfies CacheEntry));
+    await transactionDone(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction('classificationCache', 'readwrite');
+    tx.objectStore('classificationCache').clear();
+    await transactionDone(tx);
+  }
+}
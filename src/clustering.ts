@@ -0,0 +1,130 @@
+export interface ClusterSummary {
+  members: number[]; // Indexes into the clustered vectors, closest to the centroid first
+  cohesion: number; // Mean cosine similarity of the members to the centroid
+}
+
+export interface ClusterOutcome {
+  clusters: ClusterSummary[]; // Largest first; empty clusters are dropped
+}
+
+/** Seeded PRNG (mulberry32), so the same answers always produce the same clusters. */
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+const normalizeInPlace = (vector: Float32Array): Float32Array => {
+  const norm = Math.sqrt(dot(vector, vector));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/** A cluster count that grows slowly with the data: about √(n/2), between 2 and 12. */
+export const suggestClusterCount = (answerCount: number): number =>
+  Math.max(2, Math.min(12, Math.round(Math.sqrt(answerCount / 2))));
+
+/**
+ * Spherical k-means over unit-length vectors (cosine similarity), seeded with
+ * k-means++. Vectors of another length than the first are ignored.
+ */
+export const clusterVectors = (vectors: Float32Array[], k: number, maxIterations = 30): ClusterOutcome => {
+  const dimensions = vectors[0]?.length ?? 0;
+  const usable = vectors.map((_, i) => i).filter(i => vectors[i].length === dimensions);
+  k = Math.max(1, Math.min(k, usable.length));
+  if (usable.length === 0) return { clusters: [] };
+
+  // k-means++: each next centroid is picked with probability proportional to its distance from the chosen ones.
+  const random = seededRandom(usable.length * 31 + k);
+  const centroids: Float32Array[] = [Float32Array.from(vectors[usable[Math.floor(random() * usable.length)]])];
+  const distance = usable.map(i => 1 - dot(vectors[i], centroids[0]));
+  while (centroids.length < k) {
+    const total = distance.reduce((sum, d) => sum + Math.max(0, d), 0);
+    let target = random() * total;
+    let pick = distance.findIndex(d => (target -= Math.max(0, d)) <= 0);
+    if (pick < 0 || total === 0) pick = Math.floor(random() * usable.length);
+    const centroid = Float32Array.from(vectors[usable[pick]]);
+    centroids.push(centroid);
+    usable.forEach((i, n) => distance[n] = Math.min(distance[n], 1 - dot(vectors[i], centroid)));
+  }
+
+  const assignment = new Int32Array(usable.length).fill(-1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    usable.forEach((i, n) => {
+      let best = 0;
+      let bestScore = -Infinity;
+      centroids.forEach((centroid, c) => {
+        const score = dot(vectors[i], centroid);
+        if (score > bestScore) {
+          best = c;
+          bestScore = score;
+        }
+      });
+      if (assignment[n] !== best) {
+        assignment[n] = best;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+
+    const sums = centroids.map(() => new Float32Array(dimensions));
+    usable.forEach((i, n) => {
+      const sum = sums[assignment[n]];
+      const vector = vectors[i];
+      for (let d = 0; d < dimensions; d++) sum[d] += vector[d];
+    });
+    // A centroid that lost all its members keeps its position.
+    sums.forEach((sum, c) => {
+      if (sum.some(value => value !== 0)) centroids[c] = normalizeInPlace(sum);
+    });
+  }
+
+  const clusters = centroids.map((centroid, c) => {
+    const members = usable
+      .filter((_, n) => assignment[n] === c)
+      .map(i => ({ i, score: dot(vectors[i], centroid) }))
+      .sort((a, b) => b.score - a.score);
+    return {
+      members: members.map(m => m.i),
+      cohesion: members.length > 0 ? members.reduce((sum, m) => sum + m.score, 0) / members.length : 0,
+    };
+  });
+  return { clusters: clusters.filter(c => c.members.length > 0).sort((a, b) => b.members.length - a.members.length) };
+}
+
+const CATCH_ALL_TOPIC = /\b(other|others|misc|miscellaneous|general|uncategori[sz]ed)\b/i;
+
+// A cluster fits the taxonomy poorly when less than this share of it falls under one main topic.
+export const POOR_FIT_SHARE = 0.5;
+
+export interface TopicFit {
+  shares: { topic: string; share: number }[]; // Main topics of the members, most common first
+  fit: number; // Share of the most common main topic, 0 if it is a catch-all bucket
+  poorFit: boolean;
+}
+
+/**
+ * How well a cluster lines up with the existing topic tree, from its members'
+ * main topics. Clusters spread over several topics, or landing mostly in a
+ * catch-all bucket such as "Other", are likely themes the taxonomy is missing.
+ */
+export const topicFit = (mainTopics: (string | undefined)[]): TopicFit => {
+  const counts = new Map<string, number>();
+  mainTopics.forEach(topic => counts.set(topic || 'Unclassified', (counts.get(topic || 'Unclassified') || 0) + 1));
+  const shares = Array.from(counts.entries())
+    .map(([topic, count]) => ({ topic, share: count / Math.max(1, mainTopics.length) }))
+    .sort((a, b) => b.share - a.share);
+  const top = shares[0];
+  const fit = !top || top.topic === 'Unclassified' || CATCH_ALL_TOPIC.test(top.topic) ? 0 : top.share;
+  return { shares, fit, poorFit: fit < POOR_FIT_SHARE };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { MODEL_PRICING, estimateRun, pricingFor } from './cost-estimate';
+import { DEFAULT_QUEUE_OPTIONS } from './analysis-queue';
+import { LlmProviderConfig } from './llm-provider';
+
+const config = (changes: Partial<LlmProviderConfig>): LlmProviderConfig =>
+  ({ kind: 'gemini', model: 'gemini-2.5-flash', apiKey: 'key', baseUrl: '', ...changes });
+
+describe('pricingFor', () => {
+  it('uses list prices, and treats the mock provider and local servers as free', () => {
+    expect(pricingFor(config({}))).toBe(MODEL_PRICING['gemini-2.5-flash']);
+    expect(pricingFor(config({ kind: 'mock' }))).toEqual({ inputPerMillion: 0, outputPerMillion: 0 });
+    expect(pricingFor(config({ kind: 'openai-compatible', model: 'llama3', baseUrl: 'http://192.168.1.20:11434/v1' }))).toEqual({ inputPerMillion: 0, outputPerMillion: 0 });
+  });
+
+  it('does not know the price of unlisted hosted models', () => {
+    expect(pricingFor(config({ kind: 'openai-compatible', model: 'gpt-4o', baseUrl: 'https://api.openai.com/v1' }))).toBeNull();
+    expect(pricingFor(config({ model: 'gemini-experimental' }))).toBeNull();
+  });
+});
+
+describe('estimateRun', () => {
+  const usage = { requests: 120, inputTokens: 1_000_000, outputTokens: 200_000 };
+
+  it('prices input and output tokens separately', () => {
+    const estimate = estimateRun(500, usage, DEFAULT_QUEUE_OPTIONS, MODEL_PRICING['gemini-2.5-flash']);
+    expect(estimate.cost).toBeCloseTo(0.30 + 0.2 * 2.50);
+    expect(estimate).toMatchObject({ rows: 500, ...usage });
+  });
+
+  it('takes the duration from whichever limit binds first', () => {
+    // About 13 seconds per request spread over 4 workers.
+    expect(estimateRun(500, usage, DEFAULT_QUEUE_OPTIONS, null).minutes).toBeCloseTo(120 * (2 + 200_000 / 120 / 150) / 60 / 4);
+    // 1.2M tokens at 250k TPM.
+    const wide = { ...DEFAULT_QUEUE_OPTIONS, concurrency: 20 };
+    expect(estimateRun(500, usage, wide, null).minutes).toBeCloseTo(4.8);
+    // 120 requests at 60 RPM.
+    expect(estimateRun(500, usage, { ...wide, tokensPerMinute: 10_000_000 }, null).minutes).toBe(2);
+  });
+
+  it('leaves the cost unknown without pricing', () => {
+    expect(estimateRun(500, usage, DEFAULT_QUEUE_OPTIONS, null).cost).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { AnalysisQueueOptions } from './analysis-queue';
+import { LlmProviderConfig } from './llm-provider';
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// List prices for paid-tier text requests; update alongside the provider's price page.
+export const MODEL_PRICING: { [model: string]: ModelPricing } = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'gemini-2.0-flash': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+};
+
+export interface TokenUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface RunEstimate extends TokenUsage {
+  rows: number;
+  cost: number | null; // null when the model's price is unknown
+  minutes: number;
+}
+
+const FREE: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+// Loopback, mDNS and private-network hosts, i.e. a server the user runs themselves.
+const LOCAL_HOST = /^(localhost|.+\.localhost|.+\.local|127(\.\d+){3}|0\.0\.0\.0|\[::1\]|10(\.\d+){3}|192\.168(\.\d+){2}|172\.(1[6-9]|2\d|3[01])(\.\d+){2})$/i;
+
+const isLocalUrl = (url: string): boolean => {
+  try {
+    return LOCAL_HOST.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** Local servers and the mock provider cost nothing; any other model without a listed price is unknown. */
+export const pricingFor = (config: LlmProviderConfig): ModelPricing | null => {
+  if (config.kind === 'mock') return FREE;
+  if (config.kind === 'openai-compatible' && isLocalUrl(config.baseUrl)) return FREE;
+  return MODEL_PRICING[config.model] || null;
+}
+
+/**
+ * Projects cost and wall-clock time for a classification run. Duration is
+ * whichever limit binds first: the RPM or TPM budget, or request latency
+ * spread over the concurrent workers. Latency is assumed, not measured.
+ */
+export const estimateRun = (rows: number, usage: TokenUsage, options: AnalysisQueueOptions, pricing: ModelPricing | null): RunEstimate => {
+  const ASSUMED_BASE_LATENCY_SECONDS = 2;
+  const ASSUMED_OUTPUT_TOKENS_PER_SECOND = 150;
+  const { requests, inputTokens, outputTokens } = usage;
+  const secondsPerRequest = requests > 0
+    ? ASSUMED_BASE_LATENCY_SECONDS + outputTokens / requests / ASSUMED_OUTPUT_TOKENS_PER_SECOND
+    : 0;
+  const minutes = Math.max(
+    requests / Math.max(1, options.requestsPerMinute),
+    (inputTokens + outputTokens) / Math.max(1, options.tokensPerMinute),
+    (requests * secondsPerRequest) / 60 / Math.max(1, options.concurrency),
+  );
+  const cost = pricing
+    ? (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000
+    : null;
+  return { rows, requests, inputTokens, outputTokens, cost, minutes };
+}
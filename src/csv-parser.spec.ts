@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { CsvDelimiter, CsvStreamParser, detectDelimiter, parseCsvFile } from './csv-parser';
+
+const parseChunks = (chunks: string[], delimiter: CsvDelimiter = ',') => {
+  const rows: { fields: string[]; line: number }[] = [];
+  const parser = new CsvStreamParser(delimiter, (fields, line) => rows.push({ fields, line }));
+  chunks.forEach(chunk => parser.push(chunk));
+  const unterminatedLine = parser.finish();
+  return { rows, unterminatedLine };
+};
+
+describe('CsvStreamParser', () => {
+  it('treats a CRLF split across chunks as one line break', () => {
+    const { rows } = parseChunks(['a,b\r', '\n1,2\r', '\n3,4']);
+    expect(rows).toEqual([
+      { fields: ['a', 'b'], line: 1 },
+      { fields: ['1', '2'], line: 2 },
+      { fields: ['3', '4'], line: 3 },
+    ]);
+  });
+
+  it('keeps quoted fields verbatim, with delimiters, escaped quotes and line breaks', () => {
+    const { rows } = parseChunks(['id,comment\n1,"  Late, ""again""\r\n', 'sadly " \n2,  plain  \n']);
+    expect(rows.map(row => row.fields)).toEqual([
+      ['id', 'comment'],
+      ['1', '  Late, "again"\r\nsadly '],
+      ['2', 'plain'],
+    ]);
+    expect(rows[2].line).toBe(4);
+  });
+
+  it('reports a quoted field that is never closed', () => {
+    const { rows, unterminatedLine } = parseChunks(['a\n"open\nstill open']);
+    expect(unterminatedLine).toBe(2);
+    expect(rows[1].fields).toEqual(['open\nstill open']);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits lines consistently', () => {
+    expect(detectDelimiter('name;comment\nAnn;"Fine, thanks"\nBob;Slow')).toBe(';');
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t');
+    expect(detectDelimiter('single column\nvalue')).toBe(',');
+  });
+});
+
+describe('parseCsvFile', () => {
+  it('pads short rows, drops long ones and skips blank lines', async () => {
+    const file = new Blob(['\uFEFFid;comment;score\n1;Good;5\n\n2;Short\n3;Too;many;fields\n4;Fine;3;\n']);
+    const result = await parseCsvFile(file, { encoding: 'utf-8', delimiter: 'auto' });
+
+    expect(result.delimiter).toBe(';');
+    expect(result.data).toEqual([['id', 'comment', 'score'], ['1', 'Good', '5'], ['2', 'Short', ''], ['4', 'Fine', '3']]);
+    expect(result.blankLinesSkipped).toBe(1);
+    expect(result.issues).toEqual([
+      { line: 4, reason: 'Row has 2 of 3 fields; missing values were left empty.', action: 'padded' },
+      { line: 5, reason: 'Row has 4 fields but the header has 3.', action: 'dropped' },
+    ]);
+  });
+
+  it('decodes the chosen encoding', async () => {
+    const file = new Blob([new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x0a, 0x6f, 0x6b])]);
+    const result = await parseCsvFile(file, { encoding: 'windows-1252', delimiter: ',' });
+    expect(result.data).toEqual([['café'], ['ok']]);
+  });
+});
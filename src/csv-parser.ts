@@ -0,0 +1,228 @@
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-1';
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export interface CsvParseOptions {
+  encoding: CsvEncoding;
+  delimiter: CsvDelimiter | 'auto';
+}
+
+export interface CsvRowIssue {
+  line: number; // 1-based physical line where the record starts
+  reason: string;
+  action: 'padded' | 'dropped' | 'kept';
+}
+
+export interface CsvParseResult {
+  data: string[][]; // Header row first, every row padded to the header's width
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  issues: CsvRowIssue[];
+  blankLinesSkipped: number;
+}
+
+/**
+ * Picks the delimiter that splits the sample's first lines into the most
+ * consistent number of fields. Quoted sections are ignored while counting.
+ */
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const lines: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    if ((char === '\n' || char === '\r') && !inQuotes) {
+      if (current.trim()) lines.push(current);
+      current = '';
+      if (lines.length >= 10) break;
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() && lines.length < 10) lines.push(current);
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => {
+      let count = 0;
+      let quoted = false;
+      for (const char of line) {
+        if (char === '"') quoted = !quoted;
+        else if (char === delimiter && !quoted) count++;
+      }
+      return count;
+    });
+    if (counts.length === 0 || counts[0] === 0) return;
+    // Lines agreeing with the header's count, weighted by how many fields that gives.
+    const consistent = counts.filter(c => c === counts[0]).length;
+    const score = consistent * 100 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Incremental RFC 4180 parser. Text can be pushed in arbitrary chunks; quoted
+ * fields may contain delimiters, escaped quotes ("") and line breaks, and
+ * CRLF, LF or CR line endings are accepted.
+ */
+export class CsvStreamParser {
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quotePending = false; // Saw a quote inside a quoted field; the next char decides if it was escaped
+  private crPending = false;    // Saw a CR; a following LF belongs to the same line break, even in the next chunk
+  private quotedLength: number | null = null; // Length of the field's quoted value; text after the closing quote is trimmed
+  private line = 1;
+  private rowStartLine = 1;
+
+  constructor(private readonly delimiter: CsvDelimiter, private readonly onRow: (fields: string[], line: number) => void) {}
+
+  private endField = () => {
+    const quoted = this.quotedLength;
+    this.row.push(quoted === null ? this.field.trim() : this.field.slice(0, quoted) + this.field.slice(quoted).trim());
+    this.field = '';
+    this.quotedLength = null;
+  }
+
+  private endRow = () => {
+    this.endField();
+    this.onRow(this.row, this.rowStartLine);
+    this.row = [];
+    this.rowStartLine = this.line;
+  }
+
+  push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.crPending) {
+        this.crPending = false;
+        if (char === '\n') {
+          if (this.inQuotes) this.field += char;
+          continue;
+        }
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false; // The previous quote closed the field; handle this char normally.
+        this.quotedLength = this.field.length;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          if (char === '\r' || char === '\n') {
+            this.line++;
+            this.crPending = char === '\r';
+          }
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.field.trim() === '') {
+        this.field = '';
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.line++;
+        this.crPending = char === '\r';
+        this.endRow();
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  /**
+   * Flushes the last record. Returns the start line of that record if the input
+   * ended inside a quoted field, otherwise null.
+   */
+  finish = (): number | null => {
+    const unterminatedLine = this.inQuotes && !this.quotePending ? this.rowStartLine : null;
+    if (this.quotePending) this.quotedLength = this.field.length;
+    if (this.field !== '' || this.row.length > 0 || this.inQuotes) {
+      this.endRow();
+    }
+    return unterminatedLine;
+  }
+}
+
+/**
+ * Streams a file through the decoder and parser without reading it into one
+ * string. Short rows are padded to the header width; rows with more non-empty
+ * fields than the header are dropped. Both are listed in `issues`.
+ */
+export const parseCsvFile = async (file: Blob, options: CsvParseOptions): Promise<CsvParseResult> => {
+  const decoder = new TextDecoder(options.encoding);
+  const reader = file.stream().getReader();
+  const data: string[][] = [];
+  const issues: CsvRowIssue[] = [];
+  let blankLinesSkipped = 0;
+  let parser: CsvStreamParser | null = null;
+  let delimiter: CsvDelimiter = options.delimiter === 'auto' ? ',' : options.delimiter;
+  let buffered = '';
+  let headerWidth = 0;
+
+  const onRow = (fields: string[], line: number) => {
+    if (fields.every(f => f === '')) {
+      blankLinesSkipped++;
+      return;
+    }
+    if (data.length === 0) {
+      headerWidth = fields.length;
+      data.push(fields);
+      return;
+    }
+    while (fields.length > headerWidth && fields[fields.length - 1] === '') fields.pop();
+    if (fields.length > headerWidth) {
+      issues.push({ line, reason: `Row has ${fields.length} fields but the header has ${headerWidth}.`, action: 'dropped' });
+      return;
+    }
+    if (fields.length < headerWidth) {
+      issues.push({ line, reason: `Row has ${fields.length} of ${headerWidth} fields; missing values were left empty.`, action: 'padded' });
+      while (fields.length < headerWidth) fields.push('');
+    }
+    data.push(fields);
+  };
+
+  const feed = (text: string, final: boolean) => {
+    if (!parser) {
+      // Hold text back until there is enough to detect the delimiter from several lines.
+      buffered += text;
+      if (!final && buffered.length < 64 * 1024) return;
+      buffered = buffered.replace(/^\uFEFF/, '');
+      if (options.delimiter === 'auto') delimiter = detectDelimiter(buffered);
+      parser = new CsvStreamParser(delimiter, onRow);
+      text = buffered;
+      buffered = '';
+    }
+    parser.push(text);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    feed(decoder.decode(value, { stream: true }), false);
+  }
+  feed(decoder.decode(), true);
+
+  const unterminatedLine = (parser as CsvStreamParser | null)?.finish() ?? null;
+  if (unterminatedLine !== null) {
+    issues.push({ line: unterminatedLine, reason: 'A quoted field is never closed, so the rest of the file was read into this record.', action: 'kept' });
+  }
+  return { data, delimiter, encoding: options.encoding, issues, blankLinesSkipped };
+}
@@ -0,0 +1,95 @@
+import { Injectable } from '@angular/core';
+import { AnalysisResult } from './gemini.service';
+import { CsvParseOptions } from './csv-parser';
+import { DashboardAggregates, DashboardQuery } from './aggregation';
+import { ImportFormat, ImportReport } from './file-import';
+import { PreprocessItem, PreprocessOptions, PreprocessOutcome } from './preprocessing';
+import { ClusterOutcome } from './clustering';
+
+export type DataWorkerRequest =
+  | { type: 'parse'; id: number; file: Blob; format: ImportFormat; options: CsvParseOptions; sheetName?: string }
+  | { type: 'set-results'; results: AnalysisResult[] }
+  | { type: 'append-results'; results: AnalysisResult[] }
+  | { type: 'aggregate'; id: number; query: DashboardQuery }
+  | { type: 'preprocess'; id: number; items: PreprocessItem[]; options: PreprocessOptions }
+  | { type: 'cluster'; id: number; vectors: Float32Array[]; k: number };
+
+// An .xlsx upload with several sheets answers with their names until one is picked.
+export type ParseOutcome = { report: ImportReport } | { sheets: string[] };
+
+export type DataWorkerResponse =
+  | { type: 'parsed'; id: number; outcome: ParseOutcome }
+  | { type: 'aggregated'; id: number; aggregates: DashboardAggregates }
+  | { type: 'preprocessed'; id: number; outcome: PreprocessOutcome }
+  | { type: 'clustered'; id: number; outcome: ClusterOutcome }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Runs file parsing, pre-processing, clustering and dashboard aggregation in a Web Worker so large files
+ * don't block the UI. The worker mirrors the result list; new results are
+ * buffered here and sent in small batches instead of re-sending the whole list.
+ */
+@Injectable({ providedIn: 'root' })
+export class DataWorkerService {
+  private worker = new Worker(new URL('./data.worker', import.meta.url), { type: 'module' });
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+  private appendBuffer: AnalysisResult[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.worker.addEventListener('message', ({ data }: MessageEvent<DataWorkerResponse>) => {
+      const request = this.pending.get(data.id);
+      if (!request) return;
+      this.pending.delete(data.id);
+      if (data.type === 'error') request.reject(new Error(data.message));
+      else request.resolve(data.type === 'aggregated' ? data.aggregates : data.outcome);
+    });
+    this.worker.addEventListener('error', event => {
+      console.error('Data worker failed:', event);
+      this.pending.forEach(request => request.reject(new Error('The background data worker stopped unexpectedly.')));
+      this.pending.clear();
+    });
+  }
+
+  private request = <T>(message: DataWorkerRequest & { id: number }): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject });
+      this.worker.postMessage(message);
+    });
+
+  private flushAppends = () => {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    if (this.appendBuffer.length === 0) return;
+    this.worker.postMessage({ type: 'append-results', results: this.appendBuffer } satisfies DataWorkerRequest);
+    this.appendBuffer = [];
+  }
+
+  parseFile = (file: Blob, format: ImportFormat, options: CsvParseOptions, sheetName?: string): Promise<ParseOutcome> =>
+    this.request<ParseOutcome>({ type: 'parse', id: this.nextId++, file, format, options, sheetName });
+
+  /** Replaces the worker's copy of the results, e.g. when a saved session is opened. */
+  setResults = (results: AnalysisResult[]) => {
+    this.appendBuffer = [];
+    this.flushAppends();
+    this.worker.postMessage({ type: 'set-results', results } satisfies DataWorkerRequest);
+  }
+
+  /** Adds a result, or replaces the worker's copy of a row that was already sent. */
+  appendResult = (result: AnalysisResult) => {
+    this.appendBuffer.push(result);
+    if (!this.flushTimer) this.flushTimer = setTimeout(this.flushAppends, 100);
+  }
+
+  preprocess = (items: PreprocessItem[], options: PreprocessOptions): Promise<PreprocessOutcome> =>
+    this.request<PreprocessOutcome>({ type: 'preprocess', id: this.nextId++, items, options });
+
+  cluster = (vectors: Float32Array[], k: number): Promise<ClusterOutcome> =>
+    this.request<ClusterOutcome>({ type: 'cluster', id: this.nextId++, vectors, k });
+
+  aggregate = (query: DashboardQuery): Promise<DashboardAggregates> => {
+    this.flushAppends();
+    return this.request<DashboardAggregates>({ type: 'aggregate', id: this.nextId++, query });
+  }
+}
@@ -0,0 +1,76 @@
+/// <reference lib="webworker" />
+import type { AnalysisResult } from './gemini.service';
+import type { DataWorkerRequest, DataWorkerResponse, ParseOutcome } from './data-worker.service';
+import { aggregateResults } from './aggregation';
+import { preprocessResponses } from './preprocessing';
+import { clusterVectors } from './clustering';
+import { importDelimitedFile, loadWorkbook, parseJsonLines, parseJsonRecords, parseWorksheet } from './file-import';
+
+// The worker keeps its own copy of the results so the main thread only sends new or updated rows.
+const resultsByRowId = new Map<number, AnalysisResult>();
+let results: AnalysisResult[] = [];
+let dirty = false;
+
+const parse = async (request: Extract<DataWorkerRequest, { type: 'parse' }>): Promise<ParseOutcome> => {
+  switch (request.format) {
+    case 'xlsx': {
+      const workbook = await loadWorkbook(request.file);
+      if (!request.sheetName && workbook.SheetNames.length > 1) return { sheets: workbook.SheetNames };
+      return { report: parseWorksheet(workbook, request.sheetName || workbook.SheetNames[0]) };
+    }
+    case 'json':
+      return { report: parseJsonRecords(await request.file.text()) };
+    case 'jsonl':
+      return { report: parseJsonLines(await request.file.text()) };
+    default:
+      return { report: await importDelimitedFile(request.file, request.options) };
+  }
+}
+
+const reply = (response: DataWorkerResponse) => postMessage(response);
+
+addEventListener('message', async ({ data }: MessageEvent<DataWorkerRequest>) => {
+  switch (data.type) {
+    case 'parse':
+      try {
+        reply({ type: 'parsed', id: data.id, outcome: await parse(data) });
+      } catch (err: any) {
+        reply({ type: 'error', id: data.id, message: err?.message || 'Failed to parse the file.' });
+      }
+      break;
+    case 'set-results':
+      resultsByRowId.clear();
+    // falls through
+    case 'append-results':
+      // A row is sent again each time another of its questions is analyzed.
+      data.results.forEach(result => resultsByRowId.set(result.rowId, result));
+      dirty = true;
+      break;
+    case 'preprocess':
+      try {
+        reply({ type: 'preprocessed', id: data.id, outcome: preprocessResponses(data.items, data.options) });
+      } catch (err: any) {
+        reply({ type: 'error', id: data.id, message: err?.message || 'Failed to pre-process responses.' });
+      }
+      break;
+    case 'cluster':
+      try {
+        reply({ type: 'clustered', id: data.id, outcome: clusterVectors(data.vectors, data.k) });
+      } catch (err: any) {
+        reply({ type: 'error', id: data.id, message: err?.message || 'Failed to cluster responses.' });
+      }
+      break;
+    case 'aggregate':
+      // Rows arrive out of order while analyzing; keep file order for the table and exports.
+      if (dirty) {
+        results = Array.from(resultsByRowId.values()).sort((a, b) => a.rowId - b.rowId);
+        dirty = false;
+      }
+      try {
+        reply({ type: 'aggregated', id: data.id, aggregates: aggregateResults(results, data.query) });
+      } catch (err: any) {
+        reply({ type: 'error', id: data.id, message: err?.message || 'Failed to aggregate results.' });
+      }
+      break;
+  }
+});
@@ -0,0 +1,34 @@
+import '@angular/compiler';
+import { Injector } from '@angular/core';
+import { describe, expect, it } from 'vitest';
+import { EmbeddingService } from './embedding.service';
+import { GeminiService } from './gemini.service';
+import { RedactionService } from './redaction.service';
+import { LOCAL_EMBEDDING_SPACE } from './embeddings';
+
+// Without an API key there is no provider, so answers get local vectors and nothing touches IndexedDB without a session.
+const createService = () =>
+  Injector.create({ providers: [{ provide: RedactionService }, { provide: GeminiService }, { provide: EmbeddingService }] }).get(EmbeddingService);
+
+describe('EmbeddingService', () => {
+  it('embeds the units of a call made while another run is in progress', async () => {
+    const service = createService();
+    const first = service.ensureIndex(null, [{ ref: 128, text: 'Delivery was late' }, { ref: 192, text: 'Great support team' }]);
+    const second = service.ensureIndex(null, [{ ref: 256, text: 'Refund never arrived' }, { ref: 320, text: 'Checkout was easy' }]);
+    await Promise.all([first, second]);
+
+    expect(service.space()).toBe(LOCAL_EMBEDDING_SPACE);
+    [128, 192, 256, 320].forEach(ref => expect(service.vectorFor(ref)).toBeDefined());
+    expect(service.coverage([128, 192, 256, 320])).toBe(1);
+  });
+
+  it('only embeds answers that have no vector yet', async () => {
+    const service = createService();
+    await service.ensureIndex(null, [{ ref: 128, text: 'Delivery was late' }]);
+    const vector = service.vectorFor(128);
+    await service.ensureIndex(null, [{ ref: 128, text: 'Delivery was late' }, { ref: 192, text: 'Great support team' }]);
+
+    expect(service.vectorFor(128)).toBe(vector);
+    expect(service.progress()).toEqual({ done: 1, total: 1 });
+  });
+});
@@ -0,0 +1,156 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { GeminiService } from './gemini.service';
+import { RedactionService } from './redaction.service';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+import { normalizeResponseText } from './classification-cache.service';
+import { LOCAL_EMBEDDING_SPACE, SimilarAnswer, localEmbedding, nearestNeighbours, normalizeVector } from './embeddings';
+
+/** One answer to index: `ref` is its answer ref (see answerRef), `text` the verbatim. */
+export interface EmbeddingUnit {
+  ref: number;
+  text: string;
+}
+
+interface StoredEmbedding {
+  sessionId: string;
+  ref: number;
+  space: string;
+  vector: Float32Array;
+}
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * Semantic search over a session's verbatims. Answers are embedded by the AI
+ * provider when it offers embeddings (after redaction, like every other
+ * request) and locally otherwise, or when the provider's embedding call fails
+ * before anything was indexed. Vectors are stored in IndexedDB next to the
+ * session, so each answer is only embedded once per embedding model.
+ */
+@Injectable({ providedIn: 'root' })
+export class EmbeddingService {
+  private geminiService = inject(GeminiService);
+  private redaction = inject(RedactionService);
+
+  private vectors = new Map<number, Float32Array>();
+  private indexKey: string | null = null; // sessionId and space of `vectors`
+  private indexing: Promise<void> | null = null;
+  private failedSpaces = new Set<string>(); // Provider spaces that failed this page load; local is used instead
+
+  space = signal<string | null>(null);
+  progress = signal({ done: 0, total: 0 });
+  isIndexing = signal(false);
+  notice = signal(''); // Why the local fallback is in use, if a provider's embeddings failed
+
+  reset() {
+    this.vectors = new Map();
+    this.indexKey = null;
+    this.space.set(null);
+    this.progress.set({ done: 0, total: 0 });
+    this.notice.set('');
+  }
+
+  private targetSpace(): string {
+    const space = this.geminiService.embeddingSpace();
+    return space && !this.failedSpaces.has(space) ? space : LOCAL_EMBEDDING_SPACE;
+  }
+
+  /**
+   * Makes sure every unit has a vector. Runs do not overlap: a call made
+   * during another run waits for it, then embeds whichever of its units are
+   * still missing.
+   */
+  async ensureIndex(sessionId: string | null, units: EmbeddingUnit[]): Promise<void> {
+    // The other run's failure is its caller's to report; this call still indexes its own units.
+    while (this.indexing) await this.indexing.catch(() => undefined);
+    this.indexing = this.buildIndex(sessionId, units).finally(() => this.indexing = null);
+    return this.indexing;
+  }
+
+  private async buildIndex(sessionId: string | null, units: EmbeddingUnit[]) {
+    const space = this.targetSpace();
+    const key = `${sessionId}|${space}`;
+    if (this.indexKey !== key) {
+      this.vectors = sessionId ? await this.loadStored(sessionId, space) : new Map();
+      this.indexKey = key;
+      this.space.set(space);
+    }
+
+    const missing = units.filter(unit => !this.vectors.has(unit.ref));
+    if (missing.length === 0) return;
+    this.isIndexing.set(true);
+    this.progress.set({ done: 0, total: missing.length });
+    try {
+      for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+        let vectors: Float32Array[];
+        try {
+          vectors = await this.embed(batch.map(unit => unit.text), space);
+        } catch (err: any) {
+          // Nothing from this provider is indexed yet, so the whole index can switch to local vectors.
+          if (space === LOCAL_EMBEDDING_SPACE || this.vectors.size > 0) throw err;
+          console.error('Provider embeddings failed; falling back to local embeddings:', err);
+          this.failedSpaces.add(space);
+          this.notice.set(`The provider's embeddings failed (${err?.message || 'unknown error'}); using local embeddings instead.`);
+          this.indexKey = null;
+          return await this.buildIndex(sessionId, units);
+        }
+        const stored = batch.map((unit, i) => ({ ref: unit.ref, vector: vectors[i] }));
+        stored.forEach(({ ref, vector }) => this.vectors.set(ref, vector));
+        if (sessionId) await this.store(sessionId, space, stored);
+        this.progress.set({ done: Math.min(missing.length, start + batch.length), total: missing.length });
+      }
+    } finally {
+      this.isIndexing.set(false);
+    }
+  }
+
+  /** Identical answers are embedded once per call. */
+  private async embed(texts: string[], space: string): Promise<Float32Array[]> {
+    const normalized = texts.map(normalizeResponseText);
+    if (space === LOCAL_EMBEDDING_SPACE) return normalized.map(localEmbedding);
+    const unique = Array.from(new Set(normalized));
+    const vectors = await this.geminiService.embedTexts(this.redaction.redactAll(unique));
+    const byText = new Map(unique.map((text, i) => [text, normalizeVector(vectors[i])]));
+    return normalized.map(text => byText.get(text)!);
+  }
+
+  /** Answers most similar in meaning to a free-text query, optionally only among `within`. Call ensureIndex first. */
+  async search(query: string, limit: number, within?: number[]): Promise<SimilarAnswer[]> {
+    const space = this.space() || this.targetSpace();
+    const [vector] = await this.embed([query], space);
+    const candidates = within ? new Map(within.filter(ref => this.vectors.has(ref)).map(ref => [ref, this.vectors.get(ref)!])) : this.vectors;
+    return nearestNeighbours(vector, candidates, limit);
+  }
+
+  /** Share of `refs` that already have a vector, from 0 to 1. */
+  coverage(refs: number[]): number {
+    return refs.length > 0 ? refs.filter(ref => this.vectors.has(ref)).length / refs.length : 0;
+  }
+
+  /** The indexed vector of an answer, if it has one. Call ensureIndex first. */
+  vectorFor(ref: number): Float32Array | undefined {
+    return this.vectors.get(ref);
+  }
+
+  /** Answers most similar to an indexed answer, excluding itself. Call ensureIndex first. */
+  similarTo(ref: number, limit: number): SimilarAnswer[] {
+    const vector = this.vectors.get(ref);
+    return vector ? nearestNeighbours(vector, this.vectors, limit, ref) : [];
+  }
+
+  private async loadStored(sessionId: string, space: string): Promise<Map<number, Float32Array>> {
+    const db = await openDatabase();
+    const index = db.transaction('embeddings').objectStore('embeddings').index('sessionId');
+    const stored = await promisifyRequest<StoredEmbedding[]>(index.getAll(sessionId));
+    return new Map(stored.filter(entry => entry.space === space).map(entry => [entry.ref, entry.vector]));
+  }
+
+  private async store(sessionId: string, space: string, entries: { ref: number; vector: Float32Array }[]) {
+    const db = await openDatabase();
+    const tx = db.transaction('embeddings', 'readwrite');
+    const store = tx.objectStore('embeddings');
+    entries.forEach(({ ref, vector }) => store.put({ sessionId, ref, space, vector } satisfies StoredEmbedding));
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,72 @@
+/** Identifies vectors from `localEmbedding`, in the same namespace as GeminiService.embeddingSpace. */
+export const LOCAL_EMBEDDING_SPACE = 'local:hashed-ngrams-v1';
+
+const LOCAL_DIMENSIONS = 512;
+
+/** FNV-1a, so every browser maps a feature to the same dimension. */
+const fnv1a = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const wordsOf = (text: string): string[] =>
+  (text || '').toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) || [];
+
+/** Scales a vector to unit length, so cosine similarity is a dot product. */
+export const normalizeVector = (values: ArrayLike<number>): Float32Array => {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Fallback embedding computed in the browser: words, word pairs and character
+ * trigrams hashed into a fixed-size vector. Unlike a provider's model it knows
+ * no synonyms, but it matches answers sharing words or word stems
+ * ("delivered late" and "late delivery") without sending anything anywhere.
+ */
+export const localEmbedding = (text: string): Float32Array => {
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+  const words = wordsOf(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, 1);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+    const padded = ` ${word} `;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`t:${padded.slice(j, j + 3)}`, 0.25);
+  });
+
+  const vector = new Float32Array(LOCAL_DIMENSIONS);
+  counts.forEach((weight, feature) => {
+    const h = fnv1a(feature);
+    // The hash's top bit picks the sign, so collisions cancel out on average.
+    vector[h % LOCAL_DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * Math.log1p(weight);
+  });
+  return normalizeVector(vector);
+}
+
+export interface SimilarAnswer {
+  ref: number;
+  score: number; // Cosine similarity, -1 to 1
+}
+
+/** The `limit` most similar vectors to `query`; all vectors must be unit length. */
+export const nearestNeighbours = (query: Float32Array, vectors: Map<number, Float32Array>, limit: number, excludeRef?: number): SimilarAnswer[] => {
+  const scored: SimilarAnswer[] = [];
+  vectors.forEach((vector, ref) => {
+    if (ref === excludeRef || vector.length !== query.length) return;
+    let score = 0;
+    for (let i = 0; i < vector.length; i++) score += vector[i] * query[i];
+    scored.push({ ref, score });
+  });
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
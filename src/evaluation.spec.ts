@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { calibrationCurve, classificationReport, parseGoldLabels } from './evaluation';
+
+describe('parseGoldLabels', () => {
+  it('reads aliased headers and splits combined topics', () => {
+    const { labels, skipped } = parseGoldLabels([
+      ['Row ID', 'Gold Sentiment', 'Topic'],
+      ['2', 'negative', 'Delivery & Shipping > Late delivery'],
+      ['x', 'positive', ''],
+      ['3', '', 'Pricing'],
+    ]);
+    expect(skipped).toBe(1);
+    expect(labels).toEqual([
+      { rowId: 2, question: null, sentiment: 'negative', intent: null, mainTopic: 'Delivery & Shipping', subTopic: 'Late delivery' },
+      { rowId: 3, question: null, sentiment: null, intent: null, mainTopic: 'Pricing', subTopic: null },
+    ]);
+  });
+
+  it('requires a rowId and at least one label column', () => {
+    expect(() => parseGoldLabels([['sentiment'], ['positive']])).toThrow(/rowId/);
+    expect(() => parseGoldLabels([['rowId', 'comment'], ['2', 'fine']])).toThrow(/at least one/);
+  });
+});
+
+describe('classificationReport', () => {
+  it('computes precision, recall and F1 per class', () => {
+    const report = classificationReport([
+      { gold: 'negative', predicted: 'negative' },
+      { gold: 'positive', predicted: 'positive' },
+      { gold: 'positive', predicted: 'Negative' },
+      { gold: 'negative', predicted: 'negative' },
+    ]);
+    expect(report.labels).toEqual(['negative', 'positive']);
+    expect(report.confusion).toEqual([[2, 0], [1, 1]]);
+    expect(report.accuracy).toBe(0.75);
+
+    const [negative, positive] = report.perClass;
+    expect(negative).toMatchObject({ precision: 2 / 3, recall: 1, support: 2 });
+    expect(negative.f1).toBeCloseTo(0.8);
+    expect(positive).toMatchObject({ precision: 1, recall: 0.5, support: 2 });
+    expect(positive.f1).toBeCloseTo(2 / 3);
+    expect(report.macroF1).toBeCloseTo((0.8 + 2 / 3) / 2);
+  });
+
+  it('leaves classes that are only predicted out of the macro F1', () => {
+    const report = classificationReport([
+      { gold: 'positive', predicted: 'positive' },
+      { gold: 'positive', predicted: 'neutral' },
+    ]);
+    expect(report.perClass.find(c => c.label === 'neutral')).toMatchObject({ precision: 0, recall: 0, support: 0 });
+    expect(report.macroF1).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('calibrationCurve', () => {
+  it('bins by confidence and weighs the gaps by count', () => {
+    const { bins, expectedCalibrationError } = calibrationCurve([
+      { confidence: 95, correct: true },
+      { confidence: 85, correct: false },
+      { confidence: 100, correct: true },
+      { confidence: 15, correct: false },
+    ], 5);
+    expect(bins.map(bin => bin.count)).toEqual([1, 0, 0, 0, 3]);
+    expect(bins[4].meanConfidence).toBeCloseTo(280 / 3);
+    expect(bins[4].accuracy).toBeCloseTo(200 / 3);
+    // Top bin: 3 * |66.7 - 93.3| = 80; bottom bin: 1 * |0 - 15| = 15.
+    expect(expectedCalibrationError).toBeCloseTo(95 / 4);
+  });
+
+  it('has no error without points', () => {
+    expect(calibrationCurve([]).expectedCalibrationError).toBe(0);
+  });
+});
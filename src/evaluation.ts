@@ -0,0 +1,205 @@
+import type { AnalysisResult, ResponseAnalysis } from './gemini.service';
+import { questionOutcome } from './aggregation';
+
+/** Human labels for one answer; a null field was not labeled. */
+export interface GoldLabel {
+  rowId: number;
+  question: string | null; // null means the primary question
+  sentiment: string | null;
+  intent: string | null;
+  mainTopic: string | null;
+  subTopic: string | null;
+}
+
+export interface ClassMetrics {
+  label: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number; // Gold answers with this label
+}
+
+export interface ClassificationReport {
+  labels: string[];
+  perClass: ClassMetrics[];
+  accuracy: number;
+  macroF1: number;
+  total: number;
+  confusion: number[][]; // confusion[gold][predicted], indexed like `labels`
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number; // 0-100, like AnalysisResult confidence
+  accuracy: number; // 0-100
+}
+
+export interface EvaluationReport {
+  matched: number;
+  unmatched: number; // Gold labels for rows that have no classified answer
+  sentiment: ClassificationReport | null;
+  intent: ClassificationReport | null;
+  mainTopic: ClassificationReport | null;
+  topicAgreement: { main: number | null; mainCount: number; sub: number | null; subCount: number };
+  calibration: { bins: CalibrationBin[]; expectedCalibrationError: number } | null;
+}
+
+const HEADER_ALIASES: { [field in keyof GoldLabel]: string[] } = {
+  rowId: ['rowid', 'row', 'id'],
+  question: ['question'],
+  sentiment: ['sentiment', 'goldsentiment', 'humansentiment'],
+  intent: ['intent', 'goldintent', 'humanintent'],
+  mainTopic: ['topic', 'topics', 'maintopic', 'goldtopic', 'humantopic'],
+  subTopic: ['subtopic', 'goldsubtopic', 'humansubtopic'],
+};
+
+/**
+ * Reads a labeled sheet whose first row is a header. Rows are matched to
+ * results by `rowId` (as in the CSV export); labels may be in columns named
+ * sentiment, intent, topic and sub_topic. A topic column without a sub-topic
+ * column may hold both, as "Main | Sub" or "Main > Sub".
+ */
+export const parseGoldLabels = (data: string[][]): { labels: GoldLabel[]; skipped: number } => {
+  const header = (data[0] || []).map(h => (h || '').toLowerCase().replace(/[^a-z]/g, ''));
+  const columnOf = (field: keyof GoldLabel) => header.findIndex(h => HEADER_ALIASES[field].includes(h));
+  const columns = {
+    rowId: columnOf('rowId'), question: columnOf('question'), sentiment: columnOf('sentiment'),
+    intent: columnOf('intent'), mainTopic: columnOf('mainTopic'), subTopic: columnOf('subTopic'),
+  };
+  if (columns.rowId < 0) throw new Error('The gold set needs a "rowId" column matching the row numbers in the CSV export.');
+  if (columns.sentiment < 0 && columns.intent < 0 && columns.mainTopic < 0) {
+    throw new Error('The gold set needs at least one of the columns "sentiment", "intent" or "topic".');
+  }
+
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || '').trim() : '') || null;
+  const labels: GoldLabel[] = [];
+  let skipped = 0;
+  data.slice(1).forEach(row => {
+    const rowId = parseInt(cell(row, columns.rowId) || '', 10);
+    if (isNaN(rowId)) {
+      skipped++;
+      return;
+    }
+    let mainTopic = cell(row, columns.mainTopic);
+    let subTopic = cell(row, columns.subTopic);
+    if (mainTopic && columns.subTopic < 0) {
+      [mainTopic, subTopic = null] = mainTopic.split(/\s*[|>]\s*/).map(part => part || null);
+    }
+    labels.push({ rowId, question: cell(row, columns.question), sentiment: cell(row, columns.sentiment), intent: cell(row, columns.intent), mainTopic, subTopic });
+  });
+  return { labels, skipped };
+}
+
+const sameLabel = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+/** Per-class precision, recall and F1 plus a confusion matrix; labels compare case-insensitively. */
+export const classificationReport = (pairs: { gold: string; predicted: string }[]): ClassificationReport => {
+  const display = new Map<string, string>();
+  const keyOf = (label: string) => {
+    const key = label.trim().toLowerCase();
+    if (!display.has(key)) display.set(key, label.trim());
+    return key;
+  };
+  const keyed = pairs.map(p => ({ gold: keyOf(p.gold), predicted: keyOf(p.predicted) }));
+  const keys = Array.from(display.keys()).sort();
+  const index = new Map(keys.map((key, i) => [key, i]));
+  const confusion = keys.map(() => keys.map(() => 0));
+  keyed.forEach(p => confusion[index.get(p.gold)!][index.get(p.predicted)!]++);
+
+  const perClass = keys.map((key, i) => {
+    const truePositives = confusion[i][i];
+    const predicted = confusion.reduce((sum, row) => sum + row[i], 0);
+    const support = confusion[i].reduce((sum, n) => sum + n, 0);
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    return { label: display.get(key)!, precision, recall, f1: ratio(2 * precision * recall, precision + recall), support };
+  });
+  const withSupport = perClass.filter(c => c.support > 0);
+  return {
+    labels: keys.map(key => display.get(key)!),
+    perClass,
+    accuracy: ratio(keyed.filter(p => p.gold === p.predicted).length, keyed.length),
+    macroF1: ratio(withSupport.reduce((sum, c) => sum + c.f1, 0), withSupport.length),
+    total: keyed.length,
+    confusion,
+  };
+}
+
+/**
+ * Reliability of the model's confidence: answers are binned by confidence and
+ * each bin's accuracy is compared with its mean confidence. The expected
+ * calibration error is the count-weighted mean gap, in percentage points.
+ */
+export const calibrationCurve = (points: { confidence: number; correct: boolean }[], binCount = 10) => {
+  const width = 100 / binCount;
+  const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, i) => ({ lower: i * width, upper: (i + 1) * width, count: 0, meanConfidence: 0, accuracy: 0 }));
+  points.forEach(({ confidence, correct }) => {
+    const bin = bins[Math.min(binCount - 1, Math.max(0, Math.floor(confidence / width)))];
+    bin.count++;
+    bin.meanConfidence += confidence;
+    bin.accuracy += correct ? 100 : 0;
+  });
+  bins.forEach(bin => {
+    bin.meanConfidence = ratio(bin.meanConfidence, bin.count);
+    bin.accuracy = ratio(bin.accuracy, bin.count);
+  });
+  const expectedCalibrationError = ratio(bins.reduce((sum, bin) => sum + bin.count * Math.abs(bin.accuracy - bin.meanConfidence), 0), points.length);
+  return { bins, expectedCalibrationError };
+}
+
+/**
+ * Compares gold labels with the model's classifications. Answers a reviewer
+ * corrected are scored on the original AI output, since that is what is being evaluated.
+ */
+export const evaluateAgainstGold = (gold: GoldLabel[], results: AnalysisResult[], questions: string[]): EvaluationReport => {
+  const byRowId = new Map(results.map(r => [r.rowId, r]));
+  const primary = questions[0] || '';
+  const matched: { label: GoldLabel; analysis: ResponseAnalysis }[] = [];
+  gold.forEach(label => {
+    const result = byRowId.get(label.rowId);
+    const outcome = result && questionOutcome(result, label.question || primary, primary);
+    const analysis = outcome?.aiAnalysis ?? outcome?.analysis;
+    if (analysis) matched.push({ label, analysis });
+  });
+
+  const reportFor = (goldOf: (l: GoldLabel) => string | null, predictedOf: (a: ResponseAnalysis) => string | undefined) => {
+    const pairs = matched
+      .filter(m => goldOf(m.label))
+      .map(m => ({ gold: goldOf(m.label)!, predicted: predictedOf(m.analysis) || '(none)' }));
+    return pairs.length > 0 ? classificationReport(pairs) : null;
+  };
+
+  const withMain = matched.filter(m => m.label.mainTopic);
+  const withSub = matched.filter(m => m.label.mainTopic && m.label.subTopic);
+  const mainCorrect = (m: typeof matched[number]) => sameLabel(m.label.mainTopic, m.analysis.topics[0]);
+  const subCorrect = (m: typeof matched[number]) => mainCorrect(m) && sameLabel(m.label.subTopic, m.analysis.topics[1]);
+
+  // An answer counts as correct only if every field that was labeled agrees.
+  const points = matched.map(m => ({
+    confidence: m.analysis.confidence,
+    correct: (!m.label.sentiment || sameLabel(m.label.sentiment, m.analysis.sentiment))
+      && (!m.label.intent || sameLabel(m.label.intent, m.analysis.intent))
+      && (!m.label.mainTopic || mainCorrect(m))
+      && (!m.label.subTopic || subCorrect(m)),
+  })).filter(p => typeof p.confidence === 'number');
+
+  return {
+    matched: matched.length,
+    unmatched: gold.length - matched.length,
+    sentiment: reportFor(l => l.sentiment, a => a.sentiment),
+    intent: reportFor(l => l.intent, a => a.intent),
+    mainTopic: reportFor(l => l.mainTopic, a => a.topics[0]),
+    topicAgreement: {
+      main: withMain.length > 0 ? withMain.filter(mainCorrect).length / withMain.length : null,
+      mainCount: withMain.length,
+      sub: withSub.length > 0 ? withSub.filter(subCorrect).length / withSub.length : null,
+      subCount: withSub.length,
+    },
+    calibration: points.length > 0 ? calibrationCurve(points) : null,
+  };
+}
@@ -0,0 +1,124 @@
+import * as XLSX from 'xlsx';
+import { CsvDelimiter, CsvEncoding, CsvParseOptions, CsvRowIssue, parseCsvFile } from './csv-parser';
+
+export type ImportFormat = 'csv' | 'xlsx' | 'json' | 'jsonl';
+
+export const SUPPORTED_FILE_TYPES = '.csv,.tsv,.txt,.xlsx,.json,.jsonl';
+
+/**
+ * Every supported format is normalized to the same header + rows table the
+ * column mapping works on. Format-specific details are kept for display.
+ */
+export interface ImportReport {
+  format: ImportFormat;
+  data: string[][];
+  issues: CsvRowIssue[];
+  blankLinesSkipped: number;
+  delimiter?: CsvDelimiter;
+  encoding?: CsvEncoding;
+  sheetName?: string;
+}
+
+export const detectImportFormat = (fileName: string): ImportFormat | null => {
+  const name = fileName.toLowerCase();
+  if (/\.(csv|tsv|txt)$/.test(name)) return 'csv';
+  if (name.endsWith('.xlsx')) return 'xlsx';
+  if (name.endsWith('.jsonl') || name.endsWith('.ndjson')) return 'jsonl';
+  if (name.endsWith('.json')) return 'json';
+  return null;
+}
+
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+}
+
+/** Turns a list of records into a table whose headers are the union of keys in first-seen order. */
+const recordsToTable = (records: { [key: string]: unknown }[]): string[][] => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(key => {
+    if (!seen.has(key)) {
+      seen.add(key);
+      headers.push(key);
+    }
+  }));
+  return [headers, ...records.map(record => headers.map(h => cellToString(record[h])))];
+}
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Accepts a top-level array of objects, or an object wrapping one (as many
+ * survey tool exports do, e.g. `{ "responses": [...] }`).
+ */
+export const parseJsonRecords = (text: string): ImportReport => {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed) ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (!list) {
+    throw new Error('Expected a JSON array of objects, or an object containing one.');
+  }
+  const issues: CsvRowIssue[] = [];
+  const records = list.filter((item, index) => {
+    if (isRecord(item)) return true;
+    issues.push({ line: index + 1, reason: 'Array entry is not an object.', action: 'dropped' });
+    return false;
+  });
+  return { format: 'json', data: recordsToTable(records), issues, blankLinesSkipped: 0 };
+}
+
+/** One JSON object per line; lines that do not parse are reported and skipped. */
+export const parseJsonLines = (text: string): ImportReport => {
+  const issues: CsvRowIssue[] = [];
+  const records: { [key: string]: unknown }[] = [];
+  let blankLinesSkipped = 0;
+  text.replace(/^\uFEFF/, '').replace(/(\r\n|\n|\r)$/, '').split(/\r\n|\n|\r/).forEach((line, index) => {
+    if (!line.trim()) {
+      blankLinesSkipped++;
+      return;
+    }
+    try {
+      const value = JSON.parse(line);
+      if (isRecord(value)) {
+        records.push(value);
+      } else {
+        issues.push({ line: index + 1, reason: 'Line is valid JSON but not an object.', action: 'dropped' });
+      }
+    } catch {
+      issues.push({ line: index + 1, reason: 'Line is not valid JSON.', action: 'dropped' });
+    }
+  });
+  return { format: 'jsonl', data: recordsToTable(records), issues, blankLinesSkipped };
+}
+
+export const loadWorkbook = async (file: Blob): Promise<XLSX.WorkBook> =>
+  XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+/** Reads one worksheet using its first row as headers, formatted the way Excel displays the cells. */
+export const parseWorksheet = (workbook: XLSX.WorkBook, sheetName: string): ImportReport => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) throw new Error(`Sheet "${sheetName}" was not found in the workbook.`);
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+  const data: string[][] = [];
+  let blankLinesSkipped = 0;
+  rows.forEach(row => {
+    const cells = row.map(cellToString);
+    if (cells.every(c => c === '')) {
+      blankLinesSkipped++;
+      return;
+    }
+    data.push(cells);
+  });
+  const width = data[0]?.length || 0;
+  data.forEach(row => { while (row.length < width) row.push(''); });
+  return { format: 'xlsx', data: data.map(row => row.slice(0, width)), issues: [], blankLinesSkipped, sheetName };
+}
+
+export const importDelimitedFile = async (file: Blob, options: CsvParseOptions): Promise<ImportReport> => {
+  const result = await parseCsvFile(file, options);
+  return { format: 'csv', ...result };
+}
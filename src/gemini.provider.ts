@@ -0,0 +1,115 @@
+import { Content, FunctionCall, GoogleGenAI, Part, Schema, Type } from '@google/genai';
+import { JsonSchema, LlmEmbedRequest, LlmJsonRequest, LlmProvider, LlmRequest, LlmToolReply, LlmToolRequest, LlmTurn } from './llm-provider';
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  enum: schema.enum,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  required: schema.required,
+});
+
+const toGeminiContent = (turn: LlmTurn): Content => {
+  switch (turn.role) {
+    case 'user': return { role: 'user', parts: [{ text: turn.text }] };
+    case 'model': return (turn.raw as Content) ?? {
+      role: 'model',
+      parts: [...(turn.text ? [{ text: turn.text }] : []), ...turn.toolCalls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } }))],
+    };
+    case 'tool': return {
+      role: 'user',
+      parts: turn.results.map(({ call, result }) => ({ functionResponse: { id: call.id, name: call.name, response: { output: result } } })),
+    };
+  }
+}
+
+const toToolReply = (calls: FunctionCall[], text: string, raw: Content | undefined): LlmToolReply => {
+  const toolCalls = calls.map((call, i) => ({ id: call.id || `call-${i}`, name: call.name ?? '', args: call.args ?? {} }));
+  return { text: toolCalls.length > 0 ? '' : text, toolCalls, raw };
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly label = 'Google Gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string, readonly embeddingModel: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateText(request: LlmRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.prompt,
+      config: { abortSignal: request.signal }
+    });
+    return response.text ?? '';
+  }
+
+  async *streamText(request: LlmRequest): AsyncGenerator<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      contents: request.prompt,
+      config: { abortSignal: request.signal }
+    });
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  async generateJson<T>(request: LlmJsonRequest): Promise<T> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+        abortSignal: request.signal
+      }
+    });
+    return JSON.parse(response.text ?? '');
+  }
+
+  async embed(request: LlmEmbedRequest): Promise<number[][]> {
+    const response = await this.ai.models.embedContent({
+      model: this.embeddingModel,
+      contents: request.texts,
+      config: { abortSignal: request.signal }
+    });
+    return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+  }
+
+  private toolParams = (request: LlmToolRequest) => ({
+    model: this.model,
+    contents: request.turns.map(toGeminiContent),
+    config: {
+      systemInstruction: request.system,
+      tools: [{ functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parameters: toGeminiSchema(tool.parameters) })) }],
+      abortSignal: request.signal
+    }
+  });
+
+  async generateWithTools(request: LlmToolRequest): Promise<LlmToolReply> {
+    const response = await this.ai.models.generateContent(this.toolParams(request));
+    return toToolReply(response.functionCalls ?? [], response.text ?? '', response.candidates?.[0]?.content);
+  }
+
+  /** Streams a tool turn; function calls arrive in whole parts, so they are collected until the stream ends. */
+  async *streamWithTools(request: LlmToolRequest): AsyncGenerator<string, LlmToolReply> {
+    const stream = await this.ai.models.generateContentStream(this.toolParams(request));
+    const calls: FunctionCall[] = [];
+    const parts: Part[] = [];
+    let text = '';
+    for await (const chunk of stream) {
+      calls.push(...(chunk.functionCalls ?? []));
+      parts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+      if (chunk.text) {
+        text += chunk.text;
+        yield chunk.text;
+      }
+    }
+    return toToolReply(calls, text, { role: 'model', parts });
+  }
+}
@@ -0,0 +1,105 @@
+import '@angular/compiler';
+import { Injector } from '@angular/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisResult, GeminiService, ResponseAnalysis } from './gemini.service';
+import { RedactionService } from './redaction.service';
+import { MockProvider } from './mock.provider';
+import { DEFAULT_MODELS } from './llm-provider';
+import { DEFAULT_TAXONOMY } from './taxonomy';
+import { EMPTY_CHAT_MEMORY, chatConversation } from './chat-memory';
+import { QueryToolContext, describeQueryData, executeQueryTool, queryTools } from './query-tools';
+
+const createService = () => {
+  const injector = Injector.create({ providers: [{ provide: RedactionService }, { provide: GeminiService }] });
+  const service = injector.get(GeminiService);
+  service.providerConfig.set({ kind: 'mock', model: DEFAULT_MODELS['mock'], apiKey: '', baseUrl: '' });
+  return service;
+};
+
+const answer = (rowId: number, text: string, sentiment: ResponseAnalysis['sentiment']): AnalysisResult => ({
+  rowId,
+  text,
+  analysis: { sentiment, sentiment_score: 0, intent: 'feedback', emotions: [], topics: ['Delivery & Shipping'], explanation: '', confidence: 90, redacted_excerpt: text, language: 'en' },
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('GeminiService with the mock provider', () => {
+  it('classifies a response into the taxonomy', async () => {
+    const analysis = await createService().analyzeSurveyResponse('The parcel arrived late and the box was damaged', DEFAULT_TAXONOMY);
+    expect(analysis.error).toBeUndefined();
+    expect(analysis.sentiment).toBe('negative');
+    expect(DEFAULT_TAXONOMY.topics.map(topic => topic.name)).toContain(analysis.topics[0]);
+  });
+
+  it('classifies a batch in one request', async () => {
+    const generateJson = vi.spyOn(MockProvider.prototype, 'generateJson');
+    const { results, unresolved } = await createService().analyzeSurveyResponsesBatch([
+      { rowId: 2, text: 'Great service, thank you' },
+      { rowId: 3, text: 'Terrible, my refund never came' },
+    ], DEFAULT_TAXONOMY);
+    expect(generateJson).toHaveBeenCalledTimes(1);
+    expect(unresolved).toEqual([]);
+    expect(results.get(2).sentiment).toBe('positive');
+    expect(results.get(3).sentiment).toBe('negative');
+  });
+
+  it('reports the rows a batch reply left out as unresolved', async () => {
+    const generateJson = MockProvider.prototype.generateJson;
+    vi.spyOn(MockProvider.prototype, 'generateJson').mockImplementation(async function (this: MockProvider, request) {
+      const body = await generateJson.call(this, request) as any[];
+      return body.filter(entry => entry.rowId !== 3);
+    });
+    const { results, unresolved } = await createService().analyzeSurveyResponsesBatch([
+      { rowId: 2, text: 'Great service' },
+      { rowId: 3, text: 'Slow delivery' },
+      { rowId: 4, text: 'Easy checkout' },
+    ], DEFAULT_TAXONOMY);
+    expect([...results.keys()]).toEqual([2, 4]);
+    expect(unresolved).toEqual([3]);
+  });
+
+  it('answers a chat question by running its tool calls locally', async () => {
+    const answers = [
+      answer(2, 'Delivery was late again', 'negative'),
+      answer(3, 'Fast delivery, great packaging', 'positive'),
+      answer(4, 'The courier never showed up', 'negative'),
+    ];
+    const context: QueryToolContext = { dimensions: [], textOf: a => a['text'] };
+    const execute = vi.fn((call: Parameters<typeof executeQueryTool>[0]) => executeQueryTool(call, answers, context));
+
+    const reply = await createService().answerWithTools(
+      'How do people feel about delivery?',
+      chatConversation([], EMPTY_CHAT_MEMORY),
+      queryTools(context.dimensions),
+      describeQueryData(answers, context),
+      execute,
+    );
+
+    expect(execute.mock.calls.map(([call]) => call.name)).toEqual(['group_by', 'sample_verbatims']);
+    expect(reply!.queries.map(query => query.summary)).toEqual(['2 groups over 3 answers', '3 of 3 matching answers']);
+    expect(reply!.text).toContain('negative: <strong>2</strong> (<strong>66.7%</strong>)');
+    expect(reply!.text).toContain('<cite data-row="2">');
+  });
+
+  it('streams the final chat answer and keeps the text received before a stop', async () => {
+    const abort = new AbortController();
+    const texts: string[] = [];
+    const reply = await createService().answerWithTools(
+      'Summarize the feedback',
+      chatConversation([], EMPTY_CHAT_MEMORY),
+      queryTools([]),
+      describeQueryData([], { dimensions: [], textOf: () => '' }),
+      call => executeQueryTool(call, [], { dimensions: [], textOf: () => '' }),
+      {
+        signal: abort.signal,
+        onText: text => {
+          texts.push(text);
+          if (texts.length === 3) abort.abort();
+        },
+      },
+    );
+    expect(texts.length).toBe(3);
+    expect(reply!.text).toBe(texts[2]);
+  });
+});
@@ -1,141 +1,266 @@
-import { Injectable, signal } from '@angular/core';
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { asTransientError } from './api-errors';
+import { DEFAULT_EMBEDDING_MODELS, DEFAULT_MODELS, JsonSchema, LlmProvider, LlmProviderConfig, LlmRequest, LlmTool, LlmToolCall, LlmToolReply, LlmToolRequest, LlmTurn } from './llm-provider';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { MockProvider } from './mock.provider';
+import { TokenUsage } from './cost-estimate';
+import { ExclusionReason } from './preprocessing';
+import { normalizeLanguageCode } from './language';
+import { RedactionService } from './redaction.service';
+import { Taxonomy, normalizeTopics, parseTaxonomyJson, taxonomyToPrompt } from './taxonomy';
+import type { ChatContext } from './chat-context';
+import type { ChatConversation } from './chat-memory';
+import type { ChatCitation } from './citations';
+import type { ExecutedQuery, QueryDataDescription } from './query-tools';
 
 export interface SurveyResponse {
   rowId: number;
   [key: string]: any;
 }
 
-export interface AnalysisResult extends SurveyResponse {
-  date?: Date; // Added for time-series analysis
-  analysis?: {
-    sentiment: 'positive' | 'neutral' | 'negative';
-    sentiment_score: number;
-    intent: 'feedback' | 'complaint' | 'praise' | 'suggestion' | 'question' | 'rant' | 'other';
-    emotions: string[];
-    topics: string[];
-    explanation: string;
-    confidence: number;
-    redacted_excerpt: string;
-  };
+export const SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+export const INTENTS = ['feedback', 'complaint', 'praise', 'suggestion', 'question', 'rant', 'other'] as const;
+export const EMOTIONS = ['joy', 'frustration', 'anger', 'sadness', 'confusion', 'gratitude'];
+
+export interface ResponseAnalysis {
+  sentiment: typeof SENTIMENTS[number];
+  sentiment_score: number;
+  intent: typeof INTENTS[number];
+  emotions: string[];
+  topics: string[];
+  explanation: string;
+  confidence: number;
+  redacted_excerpt: string;
+  // Missing on results classified before language detection was added.
+  language?: string; // ISO 639-1 code, e.g. "es"
+  translation?: string; // English translation of redacted_excerpt
+}
+
+/** Outcome of classifying one open-text answer. */
+export interface QuestionAnalysis {
+  analysis?: ResponseAnalysis;
   error?: string;
+  excluded?: ExclusionReason; // Skipped by pre-processing; never sent to the model
+  duplicateOf?: number; // Analysis was copied from this row's (near-)identical response
+  // Human review: the model's classification is kept in aiAnalysis once a reviewer overrides `analysis`.
+  aiAnalysis?: ResponseAnalysis;
+  flagged?: boolean;
+  reviewedAt?: string; // ISO timestamp of the last confirmation or correction
+}
+
+/** The fields a reviewer can correct. */
+export type AnalysisCorrection = Pick<ResponseAnalysis, 'sentiment' | 'intent' | 'emotions' | 'topics'>;
+
+export interface AnalysisResult extends SurveyResponse, QuestionAnalysis {
+  date?: Date; // Added for time-series analysis
+  // One outcome per mapped text column. The top-level fields mirror the first column,
+  // or the column in `question` when the result is a per-question view from the dashboard.
+  analyses?: { [question: string]: QuestionAnalysis };
+  question?: string;
+}
+
+export interface ChatMessage {
+  sender: 'user' | 'bot';
+  text: string;
+  queries?: ExecutedQuery[]; // Tool calls run locally to produce a bot answer
+  followUps?: string[]; // Suggested next questions, split off the answer (see extractFollowUps)
+  citations?: ChatCitation[]; // The answer's <cite> tags, checked against the results
+  stopped?: boolean; // Generation was stopped; `text` is what had arrived
+}
+
+/** Streaming options for the text features: `onText` receives the text so far; aborting `signal` stops generation and keeps that text. */
+export interface TextStream {
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface BatchAnalysisItem {
+  rowId: number;
+  text: string;
 }
 
-const TOPIC_HIERARCHY = {
-  "Product Experience": [
-    "Product quality or durability issues",
-    "Product not matching description/image",
-    "Wrong or missing item received",
-    "Product packaging quality",
-    "Product variety or availability"
-  ],
-  "Delivery & Logistics": [
-    "Delivery speed",
-    "Delivery tracking accuracy",
-    "Delivery person behavior",
-    "Package condition",
-    "Wrong or partial delivery"
-  ],
-  "Return, Refund & Replacement": [
-    "Return pickup experience",
-    "Refund processing time",
-    "Replacement process",
-    "Policy clarity",
-    "Communication during refund"
-  ],
-  "Customer Service / Support": [
-    "Issue resolution",
-    "Response time",
-    "Agent politeness",
-    "Difficulty reaching support",
-    "Escalation handling"
-  ],
-  "Pricing & Offers": [
-    "Price fairness",
-    "Discounts or coupons",
-    "Hidden charges",
-    "Value for money"
-  ],
-  "Website / App Usability": [
-    "Ease of browsing",
-    "Search and filter accuracy",
-    "Checkout or payment process",
-    "App performance issues",
-    "Account management"
-  ],
-  "Order & Inventory Management": [
-    "Out of stock issues",
-    "Order cancellation",
-    "Inventory accuracy",
-    "Pre-order delays"
-  ],
-  "Overall Experience & Brand Trust": [
-    "Overall satisfaction",
-    "Brand trust",
-    "Recommendation likelihood",
-    "Repeat purchase intention"
-  ]
-};
+const PROVIDER_CONFIG_KEY = 'surveylens.provider';
+
+// Bump whenever the classification prompts or schema change, so cached results from older prompts are not reused.
+export const CLASSIFICATION_PROMPT_VERSION = 2;
+
+// Rough size of one classification in the JSON output, and ~4 characters per token.
+const ESTIMATED_OUTPUT_TOKENS_PER_ITEM = 250;
+const CHARS_PER_TOKEN = 4;
+
+// Model turns a tool-calling chat answer may take before it has to answer.
+const MAX_TOOL_ROUNDS = 6;
+
+// Chat answers cite answers in this form so the app can check them (see citations.ts).
+const CITATION_FORMAT = `<cite data-row="42" data-question="Question column, if the answer has one">exact words copied from the answer's text</cite>`;
+const CITATION_RULES = `Cite answers only with <cite> tags as shown, never as plain text. The row must be the answer's "row" and the quote must be copied word for word from its "text" or "translation"; shorten it with "…" rather than paraphrasing. Do not add a list of source rows or a confidence score for the whole answer.`;
+
+const FOLLOW_UPS_INSTRUCTION = `Finally, suggest 2-3 short follow-up questions the user could ask next about this data, as <ul class="follow-ups"><li>...</li></ul>. Leave them out when no relevant data was found.`;
 
+const conversationPrompt = (conversation: ChatConversation) => conversation.turns.length === 0 && !conversation.summary ? '' : `
+      **Conversation so far:** The current question may refer back to it (e.g. "and last month?", "show me more").
+      ${conversation.summary ? `Summary of earlier messages: ${conversation.summary}` : ''}
+      ${conversation.turns.map(turn => `${turn.sender === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n      ')}
+`;
+
+/**
+ * Runs the survey analysis prompts (classification, chat, recommendations,
+ * summary) against the configured LlmProvider. The provider can be switched at
+ * runtime; its settings, except API keys, are remembered in localStorage.
+ */
 @Injectable({ providedIn: 'root' })
 export class GeminiService {
-  private ai: GoogleGenAI | null = null;
-  apiKey = signal<string>(process.env.API_KEY || '');
-  isApiKeyValid = signal<boolean | null>(null);
-
-  constructor() {
-    if(this.apiKey()) {
-      this.ai = new GoogleGenAI({ apiKey: this.apiKey() });
-      this.isApiKeyValid.set(true);
-    } else {
-       this.isApiKeyValid.set(false);
+  private redaction = inject(RedactionService);
+  providerConfig = signal<LlmProviderConfig>(this.loadProviderConfig());
+  provider = computed<LlmProvider | null>(() => this.createProvider(this.providerConfig()));
+  isProviderReady = computed(() => this.provider() !== null);
+  // Names the vector space of the provider's embeddings, e.g. "gemini:gemini-embedding-001"; null if it has none.
+  embeddingSpace = computed(() => {
+    const provider = this.provider();
+    return provider?.embed && provider.embeddingModel ? `${this.providerConfig().kind}:${provider.embeddingModel}` : null;
+  });
+
+  private loadProviderConfig(): LlmProviderConfig {
+    const defaults: LlmProviderConfig = { kind: 'gemini', model: DEFAULT_MODELS['gemini'], apiKey: process.env.API_KEY || '', baseUrl: 'http://localhost:11434/v1' };
+    try {
+      const saved = JSON.parse(localStorage.getItem(PROVIDER_CONFIG_KEY) || 'null');
+      return saved ? { ...defaults, ...saved, apiKey: saved.kind === 'gemini' ? defaults.apiKey : '' } : defaults;
+    } catch {
+      return defaults;
+    }
+  }
+
+  private createProvider(config: LlmProviderConfig): LlmProvider | null {
+    const model = config.model || DEFAULT_MODELS[config.kind];
+    const embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODELS[config.kind];
+    switch (config.kind) {
+      case 'gemini': return config.apiKey ? new GeminiProvider(config.apiKey, model, embeddingModel) : null;
+      case 'openai-compatible': return config.baseUrl ? new OpenAiCompatibleProvider(config.baseUrl, config.apiKey, model, embeddingModel) : null;
+      case 'mock': return new MockProvider();
+    }
+  }
+
+  setProviderConfig(config: LlmProviderConfig) {
+    this.providerConfig.set(config);
+    const { apiKey, ...persisted } = config;
+    localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(persisted));
+  }
+
+  private requireProvider(): LlmProvider {
+    const provider = this.provider();
+    if (!provider) {
+      throw new Error('AI provider not configured. Check the provider settings and API key.');
+    }
+    return provider;
+  }
+
+  /** Streams the response when the provider can; returns what was generated before an abort instead of failing. */
+  private async generateStreaming(provider: LlmProvider, request: LlmRequest, stream: TextStream): Promise<string> {
+    let text = '';
+    try {
+      if (provider.streamText && stream.onText) {
+        for await (const piece of provider.streamText({ ...request, signal: stream.signal })) {
+          text += piece;
+          stream.onText(text);
+        }
+      } else {
+        text = await provider.generateText({ ...request, signal: stream.signal });
+        stream.onText?.(text);
+      }
+    } catch (error) {
+      if (stream.signal?.aborted) return text;
+      throw error;
+    }
+    return text;
+  }
+
+  /** One tool-calling turn, streamed like generateStreaming when possible; a stopped turn keeps its text and makes no calls. */
+  private async generateToolTurn(provider: LlmProvider, request: LlmToolRequest, stream: TextStream): Promise<LlmToolReply> {
+    if (!provider.streamWithTools || !stream.onText) {
+      return provider.generateWithTools!({ ...request, signal: stream.signal });
+    }
+    const pieces = provider.streamWithTools({ ...request, signal: stream.signal });
+    let text = '';
+    try {
+      while (true) {
+        const next = await pieces.next();
+        if (next.done) return next.value;
+        text += next.value;
+        stream.onText(text);
+      }
+    } catch (error) {
+      if (stream.signal?.aborted) return { text, toolCalls: [] };
+      throw error;
     }
   }
 
   private readonly analysisSchema = {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
-      sentiment: { type: Type.STRING, enum: ['positive', 'neutral', 'negative'] },
-      sentiment_score: { type: Type.NUMBER, description: 'A score from -1.0 to 1.0' },
-      intent: { type: Type.STRING, enum: ['feedback', 'complaint', 'praise', 'suggestion', 'question', 'rant', 'other'] },
+      sentiment: { type: 'string', enum: [...SENTIMENTS] },
+      sentiment_score: { type: 'number', description: 'A score from -1.0 to 1.0' },
+      intent: { type: 'string', enum: [...INTENTS] },
       emotions: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING, enum: ['joy', 'frustration', 'anger', 'sadness', 'confusion', 'gratitude'] }
+        type: 'array',
+        items: { type: 'string', enum: EMOTIONS }
       },
       topics: {
-        type: Type.ARRAY,
+        type: 'array',
         description: 'A list of 1 or 2 topics. The first is the main topic, the second is the sub-topic. e.g., ["Delivery & Logistics", "Delivery speed"]',
-        items: { type: Type.STRING }
+        items: { type: 'string' }
       },
-      explanation: { type: Type.STRING, description: 'A brief explanation for the classification.' },
-      confidence: { type: Type.INTEGER, description: 'Confidence score from 0 to 100.' },
-      redacted_excerpt: { type: Type.STRING, description: 'The original text with PII (names, emails, phone numbers) redacted.' }
+      explanation: { type: 'string', description: 'A brief explanation for the classification.' },
+      confidence: { type: 'integer', description: 'Confidence score from 0 to 100.' },
+      redacted_excerpt: { type: 'string', description: 'The original text with PII (names, emails, phone numbers) redacted.' },
+      language: { type: 'string', description: 'ISO 639-1 code of the language the response is written in, e.g. "en", "es", "de", "hi", "ja".' },
+      translation: { type: 'string', description: 'English translation of redacted_excerpt; identical to it if the response is already in English.' }
     },
-    required: ['sentiment', 'sentiment_score', 'intent', 'emotions', 'topics', 'explanation', 'confidence', 'redacted_excerpt']
-  };
+    required: ['sentiment', 'sentiment_score', 'intent', 'emotions', 'topics', 'explanation', 'confidence', 'redacted_excerpt', 'language', 'translation']
+  } satisfies JsonSchema;
 
-  async analyzeSurveyResponse(responseText: string): Promise<any> {
-    if (!this.ai) {
-      throw new Error('Gemini AI client not initialized. Check API Key.');
-    }
+  private buildAnalysisPrompt = (responseText: string, taxonomy: Taxonomy) =>
+    `Your task is to act as a survey analyst. Analyze the following customer feedback response. Classify the feedback into exactly one main topic and, if applicable, one sub-topic from the provided hierarchy. The "topics" array in your response should contain the main topic as the first element and the sub-topic as the second (if one applies), using the names exactly as written. In your explanation, identify the core issue or praise. The feedback may be written in any language: detect it, translate the redacted excerpt into English, and write the explanation in English. The feedback is: "${responseText}".\n\nHere is the topic hierarchy you MUST use (sub-topics are indented under their main topic):\n${taxonomyToPrompt(taxonomy)}`;
+
+  /**
+   * Rough token count for one classification call (prompt + expected JSON output),
+   * used by the analysis queue to stay within the TPM budget. ~4 characters per token.
+   */
+  estimateAnalysisTokens(responseText: string, taxonomy: Taxonomy): number {
+    return Math.ceil(this.buildAnalysisPrompt(responseText || '', taxonomy).length / CHARS_PER_TOKEN) + ESTIMATED_OUTPUT_TOKENS_PER_ITEM;
+  }
+
+  /**
+   * Classifies a single response. Rate limiting and temporary overload are
+   * rethrown as TransientApiError so the caller can back off and retry; any
+   * other failure is returned as `{ error }`. Aborting `signal` rejects with the
+   * abort error rather than returning it. Returned topics are checked against
+   * the taxonomy; a main topic outside it is reported as an error.
+   */
+  async analyzeSurveyResponse(responseText: string, taxonomy: Taxonomy, signal?: AbortSignal): Promise<any> {
+    const provider = this.requireProvider();
     try {
-      const response = await this.ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: `Your task is to act as a survey analyst. Analyze the following customer feedback response. Classify the feedback into exactly one main topic and, if applicable, one sub-topic from the provided hierarchy. The "topics" array in your response should contain the main topic as the first element and the sub-topic as the second (if one applies). In your explanation, identify the core issue or praise. The feedback is: "${responseText}".\n\nHere is the topic hierarchy you MUST use:\n${JSON.stringify(TOPIC_HIERARCHY, null, 2)}`,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: this.analysisSchema
-        }
+      const analysis = await provider.generateJson({
+        task: 'classify',
+        prompt: this.buildAnalysisPrompt(responseText, taxonomy),
+        schema: this.analysisSchema,
+        signal,
+        input: { items: [{ rowId: 0, text: responseText }], taxonomy }
       });
-      return JSON.parse(response.text);
+      const topics = normalizeTopics(analysis.topics, taxonomy);
+      if (!topics) {
+        return { error: `The model returned a topic outside the taxonomy: ${JSON.stringify(analysis.topics)}` };
+      }
+      return { ...analysis, topics, language: normalizeLanguageCode(analysis.language) };
     } catch (error: any) {
+      if (signal?.aborted) throw error;
+      const transient = asTransientError(error);
+      if (transient) throw transient;
       console.error('Error analyzing response:', error);
       let message = 'Failed to analyze response.';
       if (error?.message) {
-        if (error.message.includes('429')) {
-          message = 'API rate limit was reached. The process is being slowed down automatically. If this persists, please try a smaller file.';
-        } else if (error.message.includes('404')) {
-            message = `The specified model was not found. Please ensure you are using a valid Gemini model name.`;
+        if (error.message.includes('404')) {
+            message = `The specified model was not found. Please ensure the provider settings name a valid model.`;
         } else {
           message = error.message;
         }
@@ -146,56 +271,348 @@ export class GeminiService {
     }
   }
 
-  async getChatbotResponse(query: string, context: AnalysisResult[]): Promise<string> {
-    if (!this.ai) {
-      throw new Error('Gemini AI client not initialized. Check API Key.');
+  private readonly batchAnalysisSchema: JsonSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        rowId: { type: 'integer', description: 'The id of the response being classified, copied exactly from the input.' },
+        ...this.analysisSchema.properties
+      },
+      required: ['rowId', ...this.analysisSchema.required]
     }
+  };
+
+  private buildBatchAnalysisPrompt = (items: BatchAnalysisItem[], taxonomy: Taxonomy) =>
+    `Your task is to act as a survey analyst. Analyze each of the following customer feedback responses independently. For every response, classify the feedback into exactly one main topic and, if applicable, one sub-topic from the provided hierarchy. The "topics" array should contain the main topic as the first element and the sub-topic as the second (if one applies), using the names exactly as written. In each explanation, identify the core issue or praise. Responses may be written in any language: detect each one's language, translate its redacted excerpt into English, and write explanations in English. Return exactly one result per response and copy its "rowId" unchanged.\n\nResponses (JSON):\n${JSON.stringify(items.map(i => ({ rowId: i.rowId, text: i.text })))}\n\nHere is the topic hierarchy you MUST use (sub-topics are indented under their main topic):\n${taxonomyToPrompt(taxonomy)}`;
+
+  /** Token estimate for one batched call; the prompt overhead is paid once per batch. */
+  estimateBatchAnalysisTokens(texts: string[], taxonomy: Taxonomy): number {
+    const items = texts.map((text, i) => ({ rowId: i, text: text || '' }));
+    return Math.ceil(this.buildBatchAnalysisPrompt(items, taxonomy).length / CHARS_PER_TOKEN) + ESTIMATED_OUTPUT_TOKENS_PER_ITEM * texts.length;
+  }
+
+  /**
+   * Token usage for classifying `rowCount` responses totalling `textChars`
+   * characters in batches of `batchSize`, without building every prompt: the
+   * fixed prompt is measured once and each response adds its length plus the
+   * JSON wrapping around it.
+   */
+  estimateAnalysisUsage(rowCount: number, textChars: number, taxonomy: Taxonomy, batchSize: number): TokenUsage {
+    const PER_ITEM_JSON_CHARS = 25; // {"rowId":123,"text":""},
+    const size = Math.max(1, batchSize);
+    const requests = Math.ceil(rowCount / size);
+    const promptChars = size === 1
+      ? this.buildAnalysisPrompt('', taxonomy).length * requests + textChars
+      : this.buildBatchAnalysisPrompt([], taxonomy).length * requests + textChars + PER_ITEM_JSON_CHARS * rowCount;
+    return {
+      requests,
+      inputTokens: Math.ceil(promptChars / CHARS_PER_TOKEN),
+      outputTokens: ESTIMATED_OUTPUT_TOKENS_PER_ITEM * rowCount,
+    };
+  }
+
+  /**
+   * Classifies several responses in one request. Every input rowId must come back
+   * exactly once; ids that are missing, duplicated, malformed or classified
+   * outside the taxonomy are returned in `unresolved` so the caller can retry
+   * them in smaller batches through its AnalysisQueue. A single response is
+   * always resolved, with an analysis or `{ error }`.
+   * Transient API errors are rethrown so the batch can be requeued.
+   * Texts are sent as given; the caller redacts them first so cache keys match what was sent.
+   */
+  async analyzeSurveyResponsesBatch(items: BatchAnalysisItem[], taxonomy: Taxonomy, signal?: AbortSignal): Promise<{ results: Map<number, any>; unresolved: number[] }> {
+    const provider = this.requireProvider();
+    if (items.length === 1) {
+      return { results: new Map([[items[0].rowId, await this.analyzeSurveyResponse(items[0].text, taxonomy, signal)]]), unresolved: [] };
+    }
+
+    const results = new Map<number, any>();
+    let parsed: any[] = [];
+    try {
+      const body = await provider.generateJson({
+        task: 'classify',
+        prompt: this.buildBatchAnalysisPrompt(items, taxonomy),
+        schema: this.batchAnalysisSchema,
+        signal,
+        input: { items, taxonomy }
+      });
+      if (Array.isArray(body)) parsed = body;
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      const transient = asTransientError(error);
+      if (transient) throw transient;
+      console.error('Error analyzing batch, splitting:', error);
+    }
+
+    const seen = new Map<number, number>();
+    parsed.forEach(entry => seen.set(entry?.rowId, (seen.get(entry?.rowId) || 0) + 1));
+    const isValid = (entry: any) => entry && typeof entry.sentiment === 'string' && Array.isArray(entry.topics);
+    parsed.forEach(entry => {
+      if (seen.get(entry?.rowId) !== 1 || !isValid(entry)) return;
+      if (!items.some(i => i.rowId === entry.rowId)) return;
+      const topics = normalizeTopics(entry.topics, taxonomy);
+      if (!topics) return;
+      const { rowId, ...analysis } = entry;
+      results.set(rowId, { ...analysis, topics, language: normalizeLanguageCode(analysis.language) });
+    });
+
+    return { results, unresolved: items.filter(i => !results.has(i.rowId)).map(i => i.rowId) };
+  }
+
+  private readonly discoveredTaxonomySchema: JsonSchema = (() => {
+    const nodeProperties: { [key: string]: JsonSchema } = {
+      name: { type: 'string', description: 'Short, specific topic label.' },
+      description: { type: 'string', description: 'One sentence describing what belongs in this topic.' },
+      examples: { type: 'array', description: '1 to 3 verbatims from the sample, quoted exactly.', items: { type: 'string' } }
+    };
+    return {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'A short name for this taxonomy, e.g. "Employee engagement survey".' },
+        topics: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ...nodeProperties,
+              subTopics: {
+                type: 'array',
+                items: { type: 'object', properties: nodeProperties, required: ['name', 'description', 'examples'] }
+              }
+            },
+            required: ['name', 'description', 'examples', 'subTopics']
+          }
+        }
+      },
+      required: ['name', 'topics']
+    };
+  })();
+
+  /**
+   * Proposes a two-level topic hierarchy from a sample of responses, with example
+   * verbatims per node, in the same shape the classifier consumes.
+   */
+  async discoverTaxonomy(sample: string[], signal?: AbortSignal): Promise<Taxonomy> {
+    const provider = this.requireProvider();
+    sample = this.redaction.redactAll(sample);
+    const prompt = `Your task is to act as a survey analyst building a coding frame. Read the following sample of open-ended survey responses and propose a two-level topic hierarchy that covers them.
+
+      Guidelines:
+      - Propose 4 to 10 main topics, each with 2 to 6 sub-topics. Only create a sub-topic if several responses in the sample fit it.
+      - Topics must be mutually exclusive and specific to this data; avoid generic buckets such as "General feedback" unless unavoidable.
+      - For every main topic and sub-topic, give a one-sentence description and 1 to 3 example responses copied exactly from the sample.
+
+      Sample responses (JSON):
+      ${JSON.stringify(sample)}`;
+    const proposed = await provider.generateJson({
+      task: 'discover-taxonomy',
+      prompt,
+      schema: this.discoveredTaxonomySchema,
+      signal,
+      input: { sample }
+    });
+    return parseTaxonomyJson(JSON.stringify(proposed));
+  }
+
+  private readonly clusterLabelSchema: JsonSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        label: { type: 'string', description: 'A short topic name of 2 to 5 words, in the style of the existing taxonomy.' },
+        description: { type: 'string', description: 'One sentence on what the responses in this group have in common.' }
+      },
+      required: ['id', 'label', 'description']
+    }
+  };
+
+  /**
+   * Names groups of similar responses found by clustering. Each group is
+   * described by the responses closest to its centre; the taxonomy is given so
+   * labels for themes it already covers reuse its wording.
+   */
+  async labelClusters(clusters: { id: number; samples: string[] }[], taxonomy: Taxonomy, signal?: AbortSignal): Promise<Map<number, { label: string; description: string }>> {
+    const provider = this.requireProvider();
+    clusters = clusters.map(cluster => ({ id: cluster.id, samples: this.redaction.redactAll(cluster.samples) }));
+    const prompt = `Your task is to act as a survey analyst. The survey responses below were grouped automatically by similarity. For each group, give a short, specific label naming the issue its responses share, and a one-sentence description.
+
+      Guidelines:
+      - Be specific: "Login fails after app update" rather than "App issues".
+      - If a group matches a topic of the existing taxonomy, reuse that topic's wording; otherwise name the new theme.
+      - Return one entry per group, with the group's id.
+
+      Existing taxonomy:
+      ${taxonomyToPrompt(taxonomy)}
+
+      Groups (JSON):
+      ${JSON.stringify(clusters)}`;
+    const labels = await provider.generateJson<{ id: number; label: string; description: string }[]>({
+      task: 'label-clusters',
+      prompt,
+      schema: this.clusterLabelSchema,
+      signal,
+      input: { clusters }
+    });
+    return new Map((Array.isArray(labels) ? labels : [])
+      .filter(entry => clusters.some(c => c.id === entry?.id) && typeof entry.label === 'string' && entry.label.trim())
+      .map(entry => [entry.id, { label: entry.label.trim(), description: String(entry.description ?? '').trim() }]));
+  }
+
+  /** One embedding per text. Texts are sent as given; callers redact them first. */
+  async embedTexts(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const provider = this.requireProvider();
+    if (!provider.embed) throw new Error(`${provider.label} does not provide embeddings.`);
+    const vectors = await provider.embed({ texts, signal });
+    if (vectors.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings but received ${vectors.length}.`);
+    }
+    return vectors;
+  }
+
+  /**
+   * Answers a question about the filtered data. `context` holds exact
+   * statistics over every filtered answer and the answers most relevant to the
+   * question (see chat-context.ts); both are redacted before sending.
+   */
+  async getChatbotResponse(query: string, context: ChatContext, conversation: ChatConversation, stream: TextStream = {}): Promise<string> {
+    const provider = this.requireProvider();
+    [query] = this.redaction.redactAll([query]);
+    const [history] = this.redaction.sanitizeRecords([conversation]) as ChatConversation[];
+    const [stats] = this.redaction.sanitizeRecords([context.stats]);
+    const excerpts = this.redaction.sanitizeRecords(context.excerpts);
     const prompt = `
-      System Instruction: You are an expert survey data analyst AI. Your primary goal is to provide detailed, grounded, and well-structured answers based *only* on the provided JSON data. **Your entire response MUST be valid HTML.** You must adhere to the specified HTML output format strictly. Do not use Markdown.
+      System Instruction: You are an expert survey data analyst AI. Your primary goal is to provide detailed, grounded, and well-structured answers based *only* on the provided data. **Your entire response MUST be valid HTML.** You must adhere to the specified HTML output format strictly. Do not use Markdown.
 
       User Prompt:
-      Based *only* on the customer feedback data provided below in JSON format, answer the following question.
+      Based *only* on the customer feedback data provided below, answer the following question.
 
-      **Data:**
-      ${JSON.stringify(context.slice(0, 200))} <!-- Limit context size -->
+      **Statistics (JSON):** Exact counts over all ${context.stats.answers} filtered answers, ${context.stats.classified} of them classified. Counts are [label, count] pairs.
+      ${JSON.stringify(stats)}
 
+      **Relevant answers (JSON):** The ${excerpts.length} answers most relevant to the question, found by ${context.retrieval} search${context.retrieval === 'keyword' ? ' and topped up with a sample spread across topics' : ''}. They are a subset: never count them to state totals or shares.
+      ${JSON.stringify(excerpts)}
+      ${conversationPrompt(history)}
       **Question:**
       ${query}
 
       **Required HTML Output Format (Follow this precisely):**
-      1.  <strong>Summary:</strong> Begin with a concise, analytical summary that directly answers the user's question. This should be a 2-4 sentence synthesis of the findings. Quantify your findings where possible (e.g., "Based on the <strong>5</strong> relevant responses, the primary issue is..."). Use <strong> HTML tags to make numbers bold.
+      1.  <strong>Summary:</strong> Begin with a concise, analytical summary that directly answers the user's question. This should be a 2-4 sentence synthesis of the findings. Take every number from the statistics (e.g., "<strong>412</strong> of the <strong>3,000</strong> answers (<strong>14%</strong>) are about delivery speed..."). Use <strong> HTML tags to make numbers bold.
       2.  <strong>Detailed Breakdown:</strong> Under this header, provide a more exhaustive explanation using an unordered list (<ul><li>...</li></ul>).
-      3.  <strong>Supporting Evidence:</strong> Under this header, list up to 3 of the most relevant feedback entries as an ordered list (<ol><li>...</li></ol>).
-          *   Each item must be formatted exactly as: <li>(Row 42) <em>"The redacted verbatim excerpt..."</em> - Confidence: 92%</li>
-          *   Use <em> HTML tags for the excerpt.
+      3.  <strong>Supporting Evidence:</strong> Under this header, list up to 3 of the most relevant answers as an ordered list (<ol><li>...</li></ol>).
+          *   Each item must be formatted exactly as: <li>${CITATION_FORMAT} - Confidence: 92%</li>, where the confidence is the answer's own "confidence" field.
       4.  <strong>Conclusion:</strong> If applicable, provide a concluding sentence.
-      5.  <strong>Audit Trail:</strong> Conclude with two separate lines, exactly as follows:
-          <p>Source rows: [row_id_1, row_id_2, ...]</p>
-          <p>Query confidence: [a percentage from 0-100 representing your confidence in the answer's relevance and accuracy based on the provided data]</p>
+      5.  <strong>Citations:</strong> ${CITATION_RULES}
       6.  <strong>No Data:</strong> If no relevant data is found to answer the question, your entire response must be only: "<p>I could not find any relevant feedback in the provided data to answer your question.</p>"
+      ${FOLLOW_UPS_INSTRUCTION}
     `;
 
     try {
-      const response: GenerateContentResponse = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-      });
-      return response.text;
+      return await this.generateStreaming(provider, { task: 'chat', prompt, input: { query, context: { ...context, stats, excerpts }, conversation: history } }, stream);
     } catch (error: any) {
       console.error('Error getting chatbot response:', error);
       return `Sorry, I encountered an error while processing your request: ${error?.message || 'Unknown issue'}`;
     }
   }
 
-  async generateRecommendations(context: AnalysisResult[], filterDescription: string): Promise<string> {
-    if (!this.ai) {
-      throw new Error('Gemini AI client not initialized. Check API Key.');
+  /**
+   * Answers a question by letting the model query the data: it plans tool
+   * calls, `execute` runs them locally over the filtered answers, and the
+   * redacted results are sent back until the model answers. Each round is
+   * streamed; if a round ends in tool calls after all, `onText` gets an empty
+   * string to drop what it showed. Returns null when the provider has no tool
+   * calling, so the caller can use getChatbotResponse.
+   */
+  async answerWithTools(
+    query: string,
+    conversation: ChatConversation,
+    tools: LlmTool[],
+    dataDescription: QueryDataDescription,
+    execute: (call: LlmToolCall) => { result: unknown; query: ExecutedQuery },
+    stream: TextStream = {},
+  ): Promise<{ text: string; queries: ExecutedQuery[] } | null> {
+    const provider = this.requireProvider();
+    if (!provider.generateWithTools) return null;
+    [query] = this.redaction.redactAll([query]);
+    const [data] = this.redaction.sanitizeRecords([dataDescription]);
+    const [history] = this.redaction.sanitizeRecords([conversation]) as ChatConversation[];
+    const system = `
+      You are an expert survey data analyst AI answering questions about customer feedback. You cannot see the answers themselves; you answer by calling the provided tools, which run exact queries over the ${dataDescription.answers} answers currently shown on the dashboard.
+
+      **Data (JSON):** The fields you can filter and group by, their most common values, and the date range.
+      ${JSON.stringify(data)}
+
+      **How to answer:**
+      - Plan the queries the question needs and call the tools; call several at once when they are independent. Use the exact values listed above in filters.
+      - Take every number in your answer from tool results; never estimate or compute totals yourself when a tool can count them. Quote shares as the tools return them.
+      - Call sample_verbatims to find quotes supporting your answer.
+      - If a tool returns an error, fix the arguments and call it again.
+
+      **Your final answer MUST be valid HTML** (no Markdown), formatted as:
+      1.  <strong>Summary:</strong> A 2-4 sentence answer to the question with the key numbers in <strong> tags.
+      2.  <strong>Detailed Breakdown:</strong> An unordered list (<ul><li>...</li></ul>) with the supporting figures.
+      3.  <strong>Supporting Evidence:</strong> Up to 3 answers from sample_verbatims as an ordered list, each exactly as: <li>${CITATION_FORMAT} - Confidence: 92%</li>, where the confidence is the answer's own "confidence" field.
+      4.  <strong>Citations:</strong> ${CITATION_RULES}
+      If the data cannot answer the question, your entire response must be only: "<p>I could not find any relevant feedback in the provided data to answer your question.</p>"
+      ${FOLLOW_UPS_INSTRUCTION}
+      ${history.summary ? `\n      **Summary of earlier messages:** ${history.summary}` : ''}
+    `;
+
+    // Earlier questions and answers are replayed as plain turns; their tool calls were already answered.
+    const turns: LlmTurn[] = [
+      ...history.turns.filter(turn => turn.text).map((turn): LlmTurn => turn.sender === 'user' ? { role: 'user', text: turn.text } : { role: 'model', text: turn.text, toolCalls: [] }),
+      { role: 'user', text: query },
+    ];
+    const queries: ExecutedQuery[] = [];
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const reply = await this.generateToolTurn(provider, { task: 'chat-tools', system, turns, tools }, stream);
+        if (reply.toolCalls.length === 0) return { text: reply.text, queries };
+        if (reply.text) stream.onText?.('');
+        turns.push({ role: 'model', text: reply.text, toolCalls: reply.toolCalls, raw: reply.raw });
+        const results = reply.toolCalls.map(call => {
+          const { result, query: executed } = execute(call);
+          queries.push(executed);
+          const [{ output }] = this.redaction.sanitizeRecords([{ output: result }]);
+          return { call, result: output };
+        });
+        turns.push({ role: 'tool', results });
+      }
+      throw new Error(`No answer after ${MAX_TOOL_ROUNDS} rounds of queries.`);
+    } catch (error: any) {
+      if (stream.signal?.aborted) return { text: '', queries };
+      console.error('Error getting chatbot response with tools:', error);
+      return { text: `Sorry, I encountered an error while processing your request: ${error?.message || 'Unknown issue'}`, queries };
     }
+  }
+
+  /** Folds older chat messages into the running summary that is sent with later questions. */
+  async summarizeConversation(summary: string, messages: ChatConversation['turns']): Promise<string> {
+    const provider = this.requireProvider();
+    const [redacted] = this.redaction.sanitizeRecords([{ summary, messages }]);
+    const prompt = `
+      System Instruction: You maintain the memory of a conversation between a user and an AI analyst about customer feedback data. Reply with plain text only.
+
+      Update the summary below with the new messages. Keep what a follow-up question could refer to: the questions asked, the filters, segments, topics and periods they were about, and the key numbers in the answers. Use at most 150 words.
+
+      **Summary so far:** ${redacted.summary || '(none)'}
+
+      **New messages (JSON):**
+      ${JSON.stringify(redacted.messages)}
+    `;
+    return (await provider.generateText({ task: 'summarize-chat', prompt, input: redacted })).trim();
+  }
+
+  async generateRecommendations(results: AnalysisResult[], filterDescription: string, stream: TextStream = {}): Promise<string> {
+    const provider = this.requireProvider();
+    [filterDescription] = this.redaction.redactAll([filterDescription]);
+    const context = this.redaction.sanitizeRecords(results.slice(0, 200));
     const prompt = `
       System Instruction: You are a senior business strategist and operations analyst AI. Your task is to generate actionable, plausible, and data-driven recommendations based on a specific subset of customer feedback. You must ground every recommendation in the provided data. **Your entire response MUST be valid HTML.** Do not use Markdown.
 
       **Provided Data (A subset of survey responses focusing on ${filterDescription}):**
-      ${JSON.stringify(context.slice(0, 200))} <!-- Limit context size -->
+      ${JSON.stringify(context)} <!-- Limit context size -->
 
       **Task:**
       Analyze the provided feedback to identify the root causes of customer sentiment. Based *only* on this data, generate a set of actionable recommendations to address the issues or amplify the positives.
@@ -224,26 +641,22 @@ export class GeminiService {
       <strong>Constraint:</strong> Do NOT invent information or suggest actions that cannot be directly linked to the provided customer quotes. The goal is data-driven advice, not speculation.
     `;
      try {
-      const response: GenerateContentResponse = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-      });
-      return response.text;
+      return await this.generateStreaming(provider, { task: 'recommendations', prompt, input: { context, filterDescription } }, stream);
     } catch (error: any) {
       console.error('Error getting recommendations:', error);
       return `Sorry, I encountered an error while generating recommendations: ${error?.message || 'Unknown issue'}`;
     }
   }
 
-  async generateExecutiveSummary(context: AnalysisResult[], filterDescription: string): Promise<string> {
-    if (!this.ai) {
-      throw new Error('Gemini AI client not initialized. Check API Key.');
-    }
+  async generateExecutiveSummary(results: AnalysisResult[], filterDescription: string, stream: TextStream = {}): Promise<string> {
+    const provider = this.requireProvider();
+    [filterDescription] = this.redaction.redactAll([filterDescription]);
+    const context = this.redaction.sanitizeRecords(results.slice(0, 250));
     const prompt = `
       System Instruction: You are a senior data analyst AI. Your task is to generate a concise, analytical, and data-driven executive summary based on the provided customer feedback data. **Your entire response MUST be valid HTML.** Do not use Markdown.
 
       **Provided Data (A subset of survey responses from: ${filterDescription}):**
-      ${JSON.stringify(context.slice(0, 250))} <!-- Limit context size -->
+      ${JSON.stringify(context)} <!-- Limit context size -->
 
       **Task:**
       Analyze the provided feedback to identify the most significant trends, themes, and sentiments. Generate a concise executive summary of 100-150 words using bullet points for readability.
@@ -251,7 +664,7 @@ export class GeminiService {
       **Required HTML Output Format (Follow this precisely):**
       
       <h4>Executive Summary</h4>
-      <p>Based on the analysis of <strong>${context.length}</strong> responses:</p>
+      <p>Based on the analysis of <strong>${results.length}</strong> responses:</p>
       <ul>
         <li>
           Start with a key finding. For example: "Negative sentiment comprises <strong>45%</strong> of the feedback, primarily driven by '<strong>Delivery & Logistics</strong>' issues."
@@ -273,11 +686,7 @@ export class GeminiService {
       <strong>Constraint:</strong> Ground ALL statements and numbers directly in the provided data. Do not speculate or invent information. Use <strong> tags for all numbers, percentages, topics, intents, and other significant keywords.
     `;
      try {
-      const response: GenerateContentResponse = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-      });
-      return response.text;
+      return await this.generateStreaming(provider, { task: 'summary', prompt, input: { context, filterDescription } }, stream);
     } catch (error: any) {
       console.error('Error generating executive summary:', error);
       return `<p>Sorry, I encountered an error while generating the summary: ${error?.message || 'Unknown issue'}</p>`;
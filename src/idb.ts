@@ -0,0 +1,57 @@
+const DB_NAME = 'surveylens';
+
+/**
+ * Object store migrations, one entry per schema version. Append a new entry to
+ * add stores or indexes; never edit an existing one, or installed databases
+ * will not pick the change up.
+ */
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  db => {
+    db.createObjectStore('sessions', { keyPath: 'id' });
+    const results = db.createObjectStore('results', { keyPath: ['sessionId', 'rowId'] });
+    results.createIndex('sessionId', 'sessionId');
+  },
+  db => {
+    db.createObjectStore('classificationCache', { keyPath: 'key' });
+  },
+  db => {
+    const embeddings = db.createObjectStore('embeddings', { keyPath: ['sessionId', 'ref'] });
+    embeddings.createIndex('sessionId', 'sessionId');
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+          MIGRATIONS[version](db);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Resolves once every request made on the transaction has been committed. */
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
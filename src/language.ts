@@ -0,0 +1,19 @@
+export const UNKNOWN_LANGUAGE = 'und';
+
+/** Lowercase ISO 639-1 code as reported by the classifier ("pt-BR" -> "pt"), or 'und' when missing. */
+export const normalizeLanguageCode = (code: unknown): string => {
+  const match = typeof code === 'string' ? code.trim().toLowerCase().match(/^[a-z]{2,3}(?![a-z])/) : null;
+  return match ? match[0] : UNKNOWN_LANGUAGE;
+}
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/** English display name for a language code, e.g. "es" -> "Spanish". */
+export const languageName = (code: string): string => {
+  if (code === UNKNOWN_LANGUAGE) return 'Unknown';
+  try {
+    return displayNames.of(code) || code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Provider-neutral subset of JSON Schema used for structured output. Each
+ * provider translates it into its own format (Gemini's `Type` enum, OpenAI's
+ * `json_schema` response format, ...).
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+}
+
+/** Identifies what a request is for, so providers like the mock can answer without reading the prompt. */
+export type LlmTask = 'classify' | 'discover-taxonomy' | 'label-clusters' | 'chat' | 'chat-tools' | 'summarize-chat' | 'recommendations' | 'summary';
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  signal?: AbortSignal;
+  // Structured form of what the prompt contains (e.g. the responses being classified).
+  input?: unknown;
+}
+
+export interface LlmJsonRequest extends LlmRequest {
+  schema: JsonSchema;
+}
+
+/** A function the model may ask the app to run; `parameters` describes its arguments object. */
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  args: { [key: string]: any };
+}
+
+/** One step of a tool-calling conversation, in provider-neutral form. */
+export type LlmTurn =
+  | { role: 'user'; text: string }
+  | { role: 'model'; text: string; toolCalls: LlmToolCall[]; raw?: unknown }
+  | { role: 'tool'; results: { call: LlmToolCall; result: unknown }[] };
+
+export interface LlmToolRequest {
+  task: LlmTask;
+  system: string;
+  turns: LlmTurn[];
+  tools: LlmTool[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Either tool calls to run before asking again, or the final text when
+ * `toolCalls` is empty. `raw` is the provider's own form of the turn, passed
+ * back unchanged in the next request (Gemini needs it to keep its reasoning).
+ */
+export interface LlmToolReply {
+  text: string;
+  toolCalls: LlmToolCall[];
+  raw?: unknown;
+}
+
+export interface LlmEmbedRequest {
+  texts: string[];
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly label: string;
+  readonly model: string;
+  readonly embeddingModel?: string;
+  generateText(request: LlmRequest): Promise<string>;
+  generateJson<T = any>(request: LlmJsonRequest): Promise<T>;
+  // Same text as generateText, yielded in pieces as it is generated. Providers without streaming leave this out.
+  streamText?(request: LlmRequest): AsyncGenerator<string>;
+  // One vector per text, in order. Providers without an embedding endpoint leave this out.
+  embed?(request: LlmEmbedRequest): Promise<number[][]>;
+  // One model turn of a function-calling conversation. Providers without tool support leave this out.
+  generateWithTools?(request: LlmToolRequest): Promise<LlmToolReply>;
+  // Same reply as generateWithTools, with its text yielded in pieces as it is generated. Needs generateWithTools.
+  streamWithTools?(request: LlmToolRequest): AsyncGenerator<string, LlmToolReply>;
+}
+
+export type LlmProviderKind = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface LlmProviderConfig {
+  kind: LlmProviderKind;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  embeddingModel?: string; // Missing in settings saved before semantic search; see DEFAULT_EMBEDDING_MODELS
+}
+
+export const DEFAULT_MODELS: { [kind in LlmProviderKind]: string } = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock-fixtures',
+};
+
+export const DEFAULT_EMBEDDING_MODELS: { [kind in LlmProviderKind]: string } = {
+  'gemini': 'gemini-embedding-001',
+  'openai-compatible': 'nomic-embed-text',
+  'mock': '', // The mock has no embeddings; semantic search uses local ones
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MockProvider } from './mock.provider';
+import { DEFAULT_TAXONOMY } from './taxonomy';
+
+const classify = (provider: MockProvider, text: string, signal?: AbortSignal) =>
+  provider.generateJson({ task: 'classify', prompt: '', schema: { type: 'object' }, signal, input: { items: [{ rowId: 0, text }], taxonomy: DEFAULT_TAXONOMY } });
+
+describe('MockProvider', () => {
+  it('returns the same classification for the same text', async () => {
+    const provider = new MockProvider(0);
+    expect(await classify(provider, 'Broken on arrival')).toEqual(await classify(provider, 'Broken on arrival'));
+  });
+
+  it('rejects with an AbortError once the signal aborts', async () => {
+    const abort = new AbortController();
+    const request = classify(new MockProvider(50), 'Slow delivery', abort.signal);
+    abort.abort();
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('removes its abort listener when a call completes', async () => {
+    const abort = new AbortController();
+    const add = vi.spyOn(abort.signal, 'addEventListener');
+    const remove = vi.spyOn(abort.signal, 'removeEventListener');
+    await classify(new MockProvider(0), 'Great service', abort.signal);
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(remove).toHaveBeenCalledWith('abort', add.mock.calls[0][1]);
+  });
+});
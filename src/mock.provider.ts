@@ -0,0 +1,223 @@
+import { JsonSchema, LlmJsonRequest, LlmProvider, LlmRequest, LlmToolReply, LlmToolRequest } from './llm-provider';
+import { Taxonomy } from './taxonomy';
+import type { ChatContext } from './chat-context';
+import type { ChatConversation } from './chat-memory';
+
+const POSITIVE_WORDS = ['good', 'great', 'love', 'excellent', 'amazing', 'happy', 'fast', 'easy', 'thank', 'perfect', 'helpful'];
+const NEGATIVE_WORDS = ['bad', 'poor', 'slow', 'late', 'broken', 'never', 'worst', 'terrible', 'refund', 'angry', 'disappointed', 'missing', 'damaged'];
+
+/** Small stable string hash so the same input always produces the same fixture. */
+const hash = (text: string): number => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+const wordsIn = (text: string): string[] => (text || '').toLowerCase().match(/[a-z']+/g) || [];
+
+const LANGUAGE_HINTS: [string, string[]][] = [
+  ['es', ['el', 'la', 'que', 'muy', 'pero', 'con', 'para', 'gracias']],
+  ['de', ['der', 'die', 'das', 'und', 'nicht', 'ist', 'sehr', 'danke']],
+  ['fr', ['le', 'les', 'est', 'tres', 'pas', 'avec', 'merci']],
+];
+
+/** Script-based guess for Hindi and Japanese, then a few stop words; English otherwise. */
+const guessLanguage = (text: string): string => {
+  if (/\p{Script=Devanagari}/u.test(text)) return 'hi';
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u.test(text)) return 'ja';
+  const words = (text || '').toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').match(/\p{L}+/gu) || [];
+  const [code, hits] = LANGUAGE_HINTS
+    .map(([code, hints]): [string, number] => [code, words.filter(w => hints.includes(w)).length])
+    .sort((a, b) => b[1] - a[1])[0];
+  return hits >= 2 ? code : 'en';
+}
+
+const classify = (text: string, taxonomy: Taxonomy) => {
+  const words = wordsIn(text);
+  const score = words.filter(w => POSITIVE_WORDS.some(p => w.startsWith(p))).length
+    - words.filter(w => NEGATIVE_WORDS.some(n => w.startsWith(n))).length;
+  const sentiment = score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral';
+
+  // Pick the sub-topic sharing the most words with the response, falling back to a hash.
+  const candidates = taxonomy.topics.flatMap(topic =>
+    topic.subTopics.length > 0 ? topic.subTopics.map(sub => [topic.name, sub.name]) : [[topic.name]]);
+  let best = candidates[hash(text) % Math.max(1, candidates.length)] || ['Other'];
+  let bestOverlap = 0;
+  candidates.forEach(candidate => {
+    const overlap = wordsIn(candidate.join(' ')).filter(w => w.length > 3 && words.includes(w)).length;
+    if (overlap > bestOverlap) {
+      best = candidate;
+      bestOverlap = overlap;
+    }
+  });
+
+  return {
+    sentiment,
+    sentiment_score: Math.max(-1, Math.min(1, score / 3)),
+    intent: sentiment === 'positive' ? 'praise' : sentiment === 'negative' ? 'complaint' : 'feedback',
+    emotions: sentiment === 'positive' ? ['joy'] : sentiment === 'negative' ? ['frustration'] : [],
+    topics: best,
+    explanation: `Mock classification based on ${bestOverlap > 0 ? 'keyword overlap with the topic' : 'a fixed assignment'}.`,
+    confidence: 50 + (hash(text) % 50),
+    redacted_excerpt: text,
+    language: guessLanguage(text),
+    translation: text, // The mock cannot translate; it echoes the original.
+  };
+}
+
+const STOP_WORDS = ['that', 'this', 'with', 'have', 'were', 'they', 'their', 'there', 'from', 'would', 'about', 'which', 'very', 'been', 'just', 'when', 'what', 'your', 'them', 'more', 'than'];
+
+/** Proposes one main topic per frequent content word in the sample. */
+const discoverTaxonomy = (sample: string[]): Taxonomy => {
+  const counts = new Map<string, number>();
+  sample.forEach(text => new Set(wordsIn(text).filter(w => w.length > 3 && !STOP_WORDS.includes(w)))
+    .forEach(w => counts.set(w, (counts.get(w) || 0) + 1)));
+  const keywords = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, 5).map(e => e[0]);
+  return {
+    name: 'Discovered topics (mock)',
+    topics: keywords.map(keyword => ({
+      name: keyword.charAt(0).toUpperCase() + keyword.slice(1),
+      description: `Responses mentioning "${keyword}".`,
+      examples: sample.filter(text => wordsIn(text).includes(keyword)).slice(0, 2),
+      subTopics: [],
+    })),
+  };
+}
+
+/** Names each cluster after the content words most of its samples share. */
+const labelClusters = (clusters: { id: number; samples: string[] }[]) =>
+  clusters.map(cluster => {
+    const counts = new Map<string, number>();
+    cluster.samples.forEach(text => new Set(wordsIn(text).filter(w => w.length > 3 && !STOP_WORDS.includes(w)))
+      .forEach(w => counts.set(w, (counts.get(w) || 0) + 1)));
+    const keywords = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, 2).map(e => e[0]);
+    const label = keywords.length > 0 ? keywords.map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' & ') : `Group ${cluster.id + 1}`;
+    return { id: cluster.id, label, description: `Responses mentioning ${keywords.join(' and ') || 'varied subjects'} (mock label).` };
+  });
+
+/** Cites the first words of up to three answers, in the format the chat prompts ask for. */
+const mockEvidence = (answers: { row: number; question?: string; text: string }[]) =>
+  `<p><strong>Supporting Evidence:</strong></p><ol>${answers.slice(0, 3).map(answer =>
+    `<li><cite data-row="${answer.row}"${answer.question ? ` data-question="${answer.question}"` : ''}>${answer.text.split(/\s+/).slice(0, 12).join(' ')}</cite></li>`).join('')}</ol>`;
+
+const MOCK_FOLLOW_UPS = '<ul class="follow-ups"><li>Which topics are most negative?</li><li>How did sentiment change over time?</li></ul>';
+
+/** Builds a schema-conforming placeholder for tasks without a dedicated fixture. */
+const placeholderFor = (schema: JsonSchema): any => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, placeholderFor(value)]));
+    case 'array': return schema.items ? [placeholderFor(schema.items)] : [];
+    case 'string': return schema.enum?.[0] ?? 'mock';
+    case 'number': return 0;
+    case 'integer': return 0;
+    case 'boolean': return false;
+  }
+}
+
+/**
+ * Offline provider returning deterministic fixtures. Lets the app be demoed
+ * and exercised end-to-end without an API key or network access.
+ */
+export class MockProvider implements LlmProvider {
+  readonly label = 'Offline mock';
+  readonly model = 'mock-fixtures';
+
+  constructor(private readonly latencyMs = 300) {}
+
+  private wait = (signal?: AbortSignal, ms = this.latencyMs) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  async generateText(request: LlmRequest): Promise<string> {
+    await this.wait(request.signal);
+    const input = (request.input || {}) as { context?: any; query?: string };
+    if (request.task === 'chat') {
+      const { stats, excerpts } = input.context as ChatContext;
+      const negative = stats.sentiment.find(([sentiment]) => sentiment === 'negative')?.[1] ?? 0;
+      return `<p><strong>Summary:</strong> This is a mock answer to "${input.query}". The filtered data contains <strong>${stats.answers}</strong> responses, <strong>${negative}</strong> of them negative.</p>${mockEvidence(excerpts)}${MOCK_FOLLOW_UPS}`;
+    }
+    if (request.task === 'summarize-chat') {
+      const { summary, messages } = request.input as { summary?: string; messages: ChatConversation['turns'] };
+      const questions = messages.filter(m => m.sender === 'user').map(m => `"${m.text}"`);
+      return [summary, questions.length > 0 ? `The user asked ${questions.join(', ')}.` : ''].filter(Boolean).join(' ');
+    }
+    const context: any[] = input.context || [];
+    const negative = context.filter(r => r.analysis?.sentiment === 'negative').length;
+    switch (request.task) {
+      case 'recommendations':
+        return `<h3>Actionable Recommendations</h3><strong>1. Mock recommendation</strong><ul><li><strong>Justification:</strong> Based on <strong>${context.length}</strong> responses.</li><li><strong>Proposed Action:</strong> Connect a real provider for generated recommendations.</li></ul>`;
+      default:
+        return `<h4>Executive Summary</h4><p>Based on the analysis of <strong>${context.length}</strong> responses, <strong>${negative}</strong> are negative. This summary was produced by the offline mock provider.</p>`;
+    }
+  }
+
+  /** The generateText fixture a few words at a time. */
+  async *streamText(request: LlmRequest): AsyncGenerator<string> {
+    const text = await this.generateText(request);
+    for (const piece of text.match(/\S+\s*/g) || []) {
+      await this.wait(request.signal, this.latencyMs / 10);
+      yield piece;
+    }
+  }
+
+  async generateJson<T>(request: LlmJsonRequest): Promise<T> {
+    await this.wait(request.signal);
+    if (request.task === 'classify') {
+      const input = request.input as { items: { rowId: number; text: string }[]; taxonomy: Taxonomy };
+      const results = input.items.map(item => ({ rowId: item.rowId, ...classify(item.text, input.taxonomy) }));
+      return (request.schema.type === 'array' ? results : results[0]) as T;
+    }
+    if (request.task === 'discover-taxonomy') {
+      return discoverTaxonomy((request.input as { sample: string[] }).sample) as T;
+    }
+    if (request.task === 'label-clusters') {
+      return labelClusters((request.input as { clusters: { id: number; samples: string[] }[] }).clusters) as T;
+    }
+    return placeholderFor(request.schema) as T;
+  }
+
+  /** Asks for the sentiment split and three examples, then reports them. */
+  async generateWithTools(request: LlmToolRequest): Promise<LlmToolReply> {
+    await this.wait(request.signal);
+    // Earlier questions are replayed as user and model turns; only the latest one is answered.
+    const question = request.turns.map(turn => turn.role).lastIndexOf('user');
+    const toolTurn = request.turns.slice(question).find(turn => turn.role === 'tool');
+    if (!toolTurn) {
+      return {
+        text: '',
+        toolCalls: [
+          { id: 'mock-1', name: 'group_by', args: { by: 'sentiment' } },
+          { id: 'mock-2', name: 'sample_verbatims', args: { limit: 3 } },
+        ],
+      };
+    }
+    const [groups, samples] = toolTurn.results.map(r => r.result as any);
+    const query = (request.turns[question] as { text: string }).text;
+    const split = (groups?.groups ?? []).map((g: any) => `<li>${g.value}: <strong>${g.count}</strong> (<strong>${g.sharePercent}%</strong>)</li>`).join('');
+    return {
+      text: `<p><strong>Summary:</strong> This is a mock answer to "${query}" computed from <strong>${groups?.matching ?? 0}</strong> responses.</p><p><strong>Detailed Breakdown:</strong></p><ul>${split}</ul>${mockEvidence(samples?.samples ?? [])}${MOCK_FOLLOW_UPS}`,
+      toolCalls: [],
+    };
+  }
+
+  async *streamWithTools(request: LlmToolRequest): AsyncGenerator<string, LlmToolReply> {
+    const reply = await this.generateWithTools(request);
+    for (const piece of reply.text.match(/\S+\s*/g) || []) {
+      await this.wait(request.signal, this.latencyMs / 10);
+      yield piece;
+    }
+    return reply;
+  }
+}
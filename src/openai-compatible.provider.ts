@@ -0,0 +1,158 @@
+import { TransientApiError } from './api-errors';
+import { LlmEmbedRequest, LlmJsonRequest, LlmProvider, LlmRequest, LlmToolCall, LlmToolReply, LlmToolRequest, LlmTurn } from './llm-provider';
+
+const toMessages = (turn: LlmTurn): object[] => {
+  switch (turn.role) {
+    case 'user': return [{ role: 'user', content: turn.text }];
+    case 'model': return [{
+      role: 'assistant',
+      content: turn.text || null,
+      ...(turn.toolCalls.length > 0 ? {
+        tool_calls: turn.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } })),
+      } : {}),
+    }];
+    case 'tool': return turn.results.map(({ call, result }) => ({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) }));
+  }
+}
+
+const toToolCall = (call: any, i: number): LlmToolCall => {
+  let args = {};
+  try {
+    args = typeof call.function?.arguments === 'string' ? JSON.parse(call.function.arguments || '{}') : call.function?.arguments ?? {};
+  } catch {
+    // Left empty; the tool reports the missing arguments back to the model.
+  }
+  return { id: call.id || `call-${i}`, name: call.function?.name ?? '', args };
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API, which
+ * includes local runtimes such as Ollama (`http://localhost:11434/v1`) and
+ * the llama.cpp server (`http://localhost:8080/v1`). Embeddings use `/embeddings`.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly label = 'OpenAI-compatible';
+
+  constructor(private readonly baseUrl: string, private readonly apiKey: string, readonly model: string, readonly embeddingModel: string) {}
+
+  private send = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const headers: { [key: string]: string } = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}${path}`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      if (response.status === 429 || response.status >= 500) {
+        const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+        throw new TransientApiError(`HTTP ${response.status}: ${text}`, response.status, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+      }
+      throw new Error(`HTTP ${response.status}: ${text}`);
+    }
+    return response;
+  }
+
+  private post = async (path: string, body: object, signal?: AbortSignal): Promise<any> =>
+    (await this.send(path, body, signal)).json();
+
+  private complete = async (request: LlmRequest, extraBody: object = {}): Promise<string> => {
+    const data = await this.post('/chat/completions', {
+      model: this.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      ...extraBody,
+    }, request.signal);
+    return data?.choices?.[0]?.message?.content ?? '';
+  }
+
+  generateText(request: LlmRequest): Promise<string> {
+    return this.complete(request);
+  }
+
+  /** Parses the server-sent events of a `stream: true` completion. */
+  private async *events(response: Response): AsyncGenerator<any> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+        yield JSON.parse(data);
+      }
+    }
+  }
+
+  async *streamText(request: LlmRequest): AsyncGenerator<string> {
+    const response = await this.send('/chat/completions', {
+      model: this.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      stream: true,
+    }, request.signal);
+    for await (const event of this.events(response)) {
+      const piece = event?.choices?.[0]?.delta?.content;
+      if (piece) yield piece;
+    }
+  }
+
+  async generateJson<T>(request: LlmJsonRequest): Promise<T> {
+    // json_schema wraps its schema in an object; arrays are nested under a key and unwrapped below.
+    const wrapsArray = request.schema.type === 'array';
+    const schema = wrapsArray
+      ? { type: 'object', properties: { items: request.schema }, required: ['items'] }
+      : request.schema;
+    const text = await this.complete(request, {
+      response_format: { type: 'json_schema', json_schema: { name: request.task, schema } },
+    });
+    const parsed = JSON.parse(text);
+    return wrapsArray ? parsed.items : parsed;
+  }
+
+  async embed(request: LlmEmbedRequest): Promise<number[][]> {
+    const data = await this.post('/embeddings', { model: this.embeddingModel, input: request.texts }, request.signal);
+    const items: { index: number; embedding: number[] }[] = data?.data ?? [];
+    return [...items].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+
+  private toolBody = (request: LlmToolRequest) => ({
+    model: this.model,
+    messages: [{ role: 'system', content: request.system }, ...request.turns.flatMap(toMessages)],
+    tools: request.tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } })),
+  });
+
+  async generateWithTools(request: LlmToolRequest): Promise<LlmToolReply> {
+    const data = await this.post('/chat/completions', this.toolBody(request), request.signal);
+    const message = data?.choices?.[0]?.message ?? {};
+    return { text: message.content ?? '', toolCalls: (message.tool_calls ?? []).map(toToolCall) };
+  }
+
+  /** Streams a tool turn; tool call arguments arrive as string fragments keyed by the call's index. */
+  async *streamWithTools(request: LlmToolRequest): AsyncGenerator<string, LlmToolReply> {
+    const response = await this.send('/chat/completions', { ...this.toolBody(request), stream: true }, request.signal);
+    const calls: { id?: string; function: { name: string; arguments: string } }[] = [];
+    let text = '';
+    for await (const event of this.events(response)) {
+      const delta = event?.choices?.[0]?.delta ?? {};
+      (delta.tool_calls ?? []).forEach((part: any, i: number) => {
+        const call = calls[part.index ?? i] ??= { function: { name: '', arguments: '' } };
+        if (part.id) call.id = part.id;
+        call.function.name += part.function?.name ?? '';
+        call.function.arguments += part.function?.arguments ?? '';
+      });
+      if (delta.content) {
+        text += delta.content;
+        yield delta.content;
+      }
+    }
+    return { text, toolCalls: calls.filter(Boolean).map(toToolCall) };
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, looksLikeGibberish, preprocessResponses } from './preprocessing';
+
+const run = (texts: string[], changes: Partial<PreprocessOptions> = {}) =>
+  preprocessResponses(texts.map((text, i) => ({ rowId: i + 1, text })), { ...DEFAULT_PREPROCESS_OPTIONS, ...changes });
+
+describe('looksLikeGibberish', () => {
+  it('flags keyboard mash, symbols and repeated characters', () => {
+    expect(looksLikeGibberish('asdfgh')).toBe(true);
+    expect(looksLikeGibberish('!!!???###')).toBe(true);
+    expect(looksLikeGibberish('aaaaaaa')).toBe(true);
+    expect(looksLikeGibberish('xkcd bvcxz pltrm qwrst')).toBe(true);
+  });
+
+  it('accepts real sentences, including non-Latin scripts', () => {
+    expect(looksLikeGibberish('The delivery was late')).toBe(false);
+    expect(looksLikeGibberish('Доставка опоздала на неделю')).toBe(false);
+    expect(looksLikeGibberish('配送が遅れました')).toBe(false);
+  });
+});
+
+describe('preprocessResponses', () => {
+  it('excludes placeholders, short answers and gibberish', () => {
+    const outcome = run(['n/a', 'ok?', 'Hi', 'qwertyuiop', 'The app crashes on login']);
+    expect(outcome.analyze).toEqual([5]);
+    expect(outcome.excluded).toEqual(new Map([[1, 'empty'], [2, 'empty'], [3, 'too-short'], [4, 'gibberish']]));
+    expect(outcome.counts).toEqual({ 'empty': 2, 'too-short': 1, 'gibberish': 1 });
+  });
+
+  it('fans exact and near-duplicates out from the first copy', () => {
+    const outcome = run([
+      'The delivery took far too long to arrive',
+      'the delivery took far too long to arrive!',
+      'The delivery took far too long to arrive :( ok',
+      'Support answered quickly',
+    ]);
+    expect(outcome.analyze).toEqual([1, 4]);
+    expect(outcome.fanOut.get(1)).toEqual([{ rowId: 2, reason: 'duplicate' }, { rowId: 3, reason: 'near-duplicate' }]);
+  });
+
+  it('honours the duplicate policy and disabled checks', () => {
+    const texts = ['Great product overall', 'Great product overall', 'n/a'];
+    const skipped = run(texts, { duplicatePolicy: 'skip' });
+    expect(skipped.analyze).toEqual([1]);
+    expect(skipped.fanOut.size).toBe(0);
+
+    const everything = run(texts, { duplicatePolicy: 'off', skipEmpty: false, minLetters: 0 });
+    expect(everything.analyze).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,200 @@
+export type ExclusionReason = 'empty' | 'too-short' | 'gibberish' | 'duplicate' | 'near-duplicate';
+
+export const EXCLUSION_LABELS: { [reason in ExclusionReason]: string } = {
+  'empty': 'Empty or placeholder (e.g. "n/a", "-")',
+  'too-short': 'Too short to classify',
+  'gibberish': 'Not language (keyboard mash, symbols)',
+  'duplicate': 'Exact duplicate of an earlier response',
+  'near-duplicate': 'Near-duplicate of an earlier response',
+};
+
+export interface PreprocessOptions {
+  skipEmpty: boolean;
+  minLetters: number; // Responses with fewer letters are too short; 0 disables the check
+  skipGibberish: boolean;
+  detectNearDuplicates: boolean;
+  // 'fan-out' classifies the first copy and gives its analysis to the others; 'off' analyzes every copy.
+  duplicatePolicy: 'fan-out' | 'skip' | 'off';
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  skipEmpty: true,
+  minLetters: 3,
+  skipGibberish: true,
+  detectNearDuplicates: true,
+  duplicatePolicy: 'fan-out',
+};
+
+export interface PreprocessItem {
+  rowId: number;
+  text: string;
+}
+
+export interface PreprocessOutcome {
+  analyze: number[]; // rowIds to send to the model
+  excluded: Map<number, ExclusionReason>;
+  // Representative rowId -> duplicates that receive its analysis ('fan-out' policy only).
+  fanOut: Map<number, { rowId: number; reason: ExclusionReason }[]>;
+  counts: { [reason in ExclusionReason]?: number };
+}
+
+const PLACEHOLDERS = new Set([
+  'na', 'n a', 'none', 'nil', 'null', 'nothing', 'no', 'nope', 'no comment', 'no comments',
+  'nothing to add', 'not applicable', 'idk', 'dont know', 'no idea', 'ok', 'x', 'xx', 'xxx',
+]);
+
+/** Lowercased letters and digits separated by single spaces; punctuation and case differences vanish. */
+const canonical = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const isPlaceholder = (text: string): boolean => {
+  const value = canonical(text);
+  return value === '' || PLACEHOLDERS.has(value);
+}
+
+const KEYBOARD_RUNS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', '1234567890'];
+
+/**
+ * Heuristics for answers that are not language: mostly symbols, a single
+ * repeated character, keyboard runs, or Latin-script words with almost no
+ * vowels. Non-Latin scripts only go through the script-neutral checks.
+ */
+export const looksLikeGibberish = (text: string): boolean => {
+  const compact = text.replace(/\s+/g, '');
+  if (compact.length < 4) return false;
+  const letters = compact.match(/\p{L}/gu) || [];
+  if (letters.length / compact.length < 0.5) return true;
+  if (new Set(compact.toLowerCase()).size <= 2) return true;
+
+  const words = canonical(text).split(' ').filter(Boolean);
+  const mashed = words.filter(word => word.length >= 4 && KEYBOARD_RUNS.some(run => run.includes(word.slice(0, 4))));
+  if (mashed.length > 0 && mashed.length >= words.length / 2) return true;
+
+  const latin = letters.join('').toLowerCase().match(/[a-z]/g) || [];
+  if (latin.length >= 10 && latin.length / letters.length > 0.8) {
+    const vowels = latin.filter(c => 'aeiouy'.includes(c)).length;
+    if (vowels / latin.length < 0.1) return true;
+    // Long consonant clusters rarely occur in real words ("sdfghj").
+    if (words.some(word => /[bcdfghjklmnpqrstvwxz]{6,}/.test(word))) return true;
+  }
+  return false;
+}
+
+const shingles = (value: string): Set<string> => {
+  const padded = ` ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  a.forEach(gram => { if (b.has(gram)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Finds near-duplicates with one-permutation MinHash over character trigrams
+ * (each trigram hash goes to one bin; a bin keeps its minimum) and banded
+ * locality-sensitive hashing, so only responses sharing a band are compared
+ * instead of every pair. Candidates are confirmed with exact Jaccard similarity.
+ */
+class NearDuplicateIndex {
+  private static readonly BANDS = 6;
+  private static readonly ROWS_PER_BAND = 5;
+  // Caps the comparisons per bucket so very repetitive data cannot turn this quadratic.
+  private static readonly MAX_BUCKET_SIZE = 8;
+  private buckets = new Map<string, { rowId: number; grams: Set<string>; signature: number[] }[]>();
+
+  constructor(private readonly threshold: number) {}
+
+  /** Returns the rowId of an earlier similar response, or registers this one and returns null. */
+  match = (rowId: number, value: string): number | null => {
+    const grams = shingles(value);
+    const { BANDS, ROWS_PER_BAND } = NearDuplicateIndex;
+    const bins = BANDS * ROWS_PER_BAND;
+    const signature: number[] = new Array(bins).fill(-1);
+    grams.forEach(gram => {
+      const hash = fnv1a(gram);
+      const bin = hash % bins;
+      const rank = Math.floor(hash / bins);
+      if (signature[bin] === -1 || rank < signature[bin]) signature[bin] = rank;
+    });
+    const keys = Array.from({ length: BANDS }, (_, band) =>
+      `${band}:${signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`);
+
+    // The share of equal MinHash values estimates similarity; only plausible candidates get the exact check.
+    const estimate = (other: number[]) => {
+      let equal = 0;
+      for (let i = 0; i < bins; i++) if (other[i] === signature[i]) equal++;
+      return equal / bins;
+    };
+    for (const key of keys) {
+      const match = this.buckets.get(key)?.find(entry =>
+        estimate(entry.signature) >= this.threshold - 0.15 && jaccard(entry.grams, grams) >= this.threshold);
+      if (match) return match.rowId;
+    }
+    keys.forEach(key => {
+      if (!this.buckets.has(key)) this.buckets.set(key, []);
+      const bucket = this.buckets.get(key)!;
+      if (bucket.length < NearDuplicateIndex.MAX_BUCKET_SIZE) bucket.push({ rowId, grams, signature });
+    });
+    return null;
+  }
+}
+
+/**
+ * Decides which responses are worth a model call. Items are processed in
+ * order, so the first copy of a duplicate is the one that gets analyzed.
+ */
+export const preprocessResponses = (items: PreprocessItem[], options: PreprocessOptions): PreprocessOutcome => {
+  const NEAR_DUPLICATE_THRESHOLD = 0.85;
+  const outcome: PreprocessOutcome = { analyze: [], excluded: new Map(), fanOut: new Map(), counts: {} };
+  const exact = new Map<string, number>();
+  const near = options.detectNearDuplicates ? new NearDuplicateIndex(NEAR_DUPLICATE_THRESHOLD) : null;
+
+  const exclude = (rowId: number, reason: ExclusionReason) => {
+    outcome.excluded.set(rowId, reason);
+    outcome.counts[reason] = (outcome.counts[reason] || 0) + 1;
+  };
+
+  // Short answers have too few trigrams for a meaningful similarity; exact matching covers them.
+  const NEAR_DUPLICATE_MIN_LENGTH = 20;
+
+  items.forEach(({ rowId, text }) => {
+    const value = text || '';
+    if (options.skipEmpty && isPlaceholder(value)) return exclude(rowId, 'empty');
+    if (options.minLetters > 0 && (value.match(/\p{L}/gu) || []).length < options.minLetters) return exclude(rowId, 'too-short');
+    if (options.skipGibberish && looksLikeGibberish(value)) return exclude(rowId, 'gibberish');
+
+    if (options.duplicatePolicy !== 'off') {
+      const key = canonical(value);
+      let original = exact.get(key);
+      let reason: ExclusionReason = 'duplicate';
+      if (original === undefined && near && key.length >= NEAR_DUPLICATE_MIN_LENGTH) {
+        original = near.match(rowId, key) ?? undefined;
+        reason = 'near-duplicate';
+      }
+      if (original !== undefined) {
+        exclude(rowId, reason);
+        if (options.duplicatePolicy === 'fan-out') {
+          if (!outcome.fanOut.has(original)) outcome.fanOut.set(original, []);
+          outcome.fanOut.get(original)!.push({ rowId, reason });
+        }
+        return;
+      }
+      exact.set(key, rowId);
+    }
+    outcome.analyze.push(rowId);
+  });
+  return outcome;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { QueryToolContext, describeQueryData, executeQueryTool } from './query-tools';
+import type { AnalysisResult, ResponseAnalysis } from './gemini.service';
+
+const answer = (rowId: number, text: string, sentiment: ResponseAnalysis['sentiment'], topics: string[], extra: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  rowId,
+  text,
+  analysis: { sentiment, sentiment_score: 0, intent: 'complaint', emotions: [], topics, explanation: '', confidence: 70 + rowId, redacted_excerpt: text, language: 'en' },
+  ...extra,
+});
+
+const answers = [
+  answer(2, 'Parcel arrived late', 'negative', ['Delivery', 'Late'], { region: 'West', date: new Date(2024, 0, 3) }),
+  answer(3, 'Late again, and damaged', 'negative', ['Delivery', 'Damaged'], { region: 'East', date: new Date(2024, 0, 20) }),
+  answer(4, 'Fair prices', 'positive', ['Pricing'], { region: 'West', date: new Date(2024, 1, 5) }),
+  answer(5, 'Prices went up', 'negative', ['Pricing'], { region: 'West' }),
+];
+
+const context: QueryToolContext = { dimensions: ['region'], textOf: a => a['text'] };
+
+const run = (name: string, args: { [key: string]: any }) => executeQueryTool({ id: '1', name, args }, answers, context);
+
+describe('executeQueryTool', () => {
+  it('counts answers matching exact values, dimensions and mentions', () => {
+    expect(run('count_answers', { filter: { sentiment: ['negative'], dimensions: [{ name: 'region', values: ['West'] }] } }).result)
+      .toEqual({ count: 2, total: 4, sharePercent: 50 });
+    expect((run('count_answers', { filter: { topic: ['delivery'] } }).result as any).count).toBe(0);
+    expect((run('count_answers', { filter: { mentions: ['LATE'], minConfidence: 73 } }).result as any).count).toBe(1);
+  });
+
+  it('groups with shares and an optional breakdown', () => {
+    const { result, query } = run('group_by', { by: 'topic', breakdownBy: 'sentiment', filter: { dimensions: [{ name: 'region', values: ['West'] }] } });
+    expect(result).toEqual({
+      matching: 3,
+      total: 4,
+      groups: [
+        { value: 'Pricing', count: 2, sharePercent: 66.7, breakdown: [{ value: 'positive', count: 1, sharePercent: 50 }, { value: 'negative', count: 1, sharePercent: 50 }] },
+        { value: 'Delivery', count: 1, sharePercent: 33.3, breakdown: [{ value: 'negative', count: 1, sharePercent: 100 }] },
+      ],
+    });
+    expect(query.description).toBe('group_by topic then sentiment where region = West');
+  });
+
+  it('buckets dated answers like the trend chart', () => {
+    const { result, query } = run('time_series', { period: 'month', by: 'sentiment' });
+    expect(result).toEqual({
+      matching: 4,
+      undatedOrUnclassified: 1,
+      period: 'month',
+      series: [
+        { period: '2024-01-01', count: 2, counts: { negative: 2 } },
+        { period: '2024-02-01', count: 1, counts: { positive: 1 } },
+      ],
+    });
+    expect(query.summary).toBe('2 months over 3 dated answers');
+  });
+
+  it('returns errors for invalid arguments instead of throwing', () => {
+    expect(run('group_by', { by: 'plan' }).result).toEqual({ error: expect.stringMatching(/^Unknown field "plan"/) });
+    expect(run('count_answers', { filter: { dimensions: [{ name: 'plan', values: ['Pro'] }] } }).result).toEqual({ error: expect.stringMatching(/^Unknown dimension "plan"/) });
+    expect(run('time_series', { period: 'year' }).query.summary).toMatch(/^Failed: Unknown period/);
+    expect(run('drop_table', {}).result).toEqual({ error: 'Unknown tool "drop_table".' });
+  });
+});
+
+describe('describeQueryData', () => {
+  it('lists the values and date range of the answers', () => {
+    const description = describeQueryData(answers, context);
+    expect(description.answers).toBe(4);
+    expect(description.values.topic).toEqual(['Delivery', 'Pricing']);
+    expect(description.dimensions).toEqual({ region: ['West', 'East'] });
+    expect(description.dates).toEqual({ from: '2024-01-03', to: '2024-02-05' });
+  });
+});
@@ -0,0 +1,301 @@
+import { timeDay, timeFormat } from 'd3';
+import type { AnalysisResult } from './gemini.service';
+import { JsonSchema, LlmTool, LlmToolCall } from './llm-provider';
+import { TrendPeriod, buildTrendData, countField, dateRange, fieldValues, inDateRange } from './aggregation';
+
+const MAX_GROUPS = 100;
+const MAX_SAMPLES = 20;
+const SAMPLE_CHARS = 400;
+
+/** Conditions every answer counted by a tool must meet. Each list matches any of its values. */
+export interface QueryFilter {
+  sentiment?: string[];
+  intent?: string[];
+  topic?: string[]; // Main topics
+  subTopic?: string[];
+  emotion?: string[];
+  language?: string[];
+  question?: string[];
+  dimensions?: { name: string; values: string[] }[];
+  dateFrom?: string; // ISO dates, both inclusive
+  dateTo?: string;
+  mentions?: string[]; // Words or phrases in the answer or its translation
+  minConfidence?: number;
+}
+
+/** A tool call the app ran to answer a chat question, kept with the answer for transparency. */
+export interface ExecutedQuery {
+  tool: string;
+  args: { [key: string]: any };
+  description: string; // See describeQuery
+  summary: string; // e.g. "412 of 3,000 answers"
+}
+
+export interface QueryToolContext {
+  dimensions: string[]; // Dimension columns the model may see
+  textOf: (answer: AnalysisResult) => string;
+}
+
+const BUILT_IN_FIELDS = ['sentiment', 'intent', 'topic', 'subTopic', 'emotion', 'language', 'question'];
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', description, items: { type: 'string' } });
+
+const filterSchema = (dimensions: string[]): JsonSchema => ({
+  type: 'object',
+  description: 'Only count answers meeting every condition. Values must match the data exactly. Leave out a condition to not filter on it.',
+  properties: {
+    sentiment: stringList('Any of these sentiments.'),
+    intent: stringList('Any of these intents.'),
+    topic: stringList('Any of these main topics.'),
+    subTopic: stringList('Any of these sub-topics.'),
+    emotion: stringList('Any of these emotions.'),
+    language: stringList('Any of these detected language codes, e.g. "en".'),
+    question: stringList('Answers to any of these survey questions.'),
+    ...(dimensions.length > 0 ? {
+      dimensions: {
+        type: 'array',
+        description: 'Conditions on respondent attributes such as region or plan.',
+        items: {
+          type: 'object',
+          properties: { name: { type: 'string', enum: dimensions }, values: stringList('Any of these values.') },
+          required: ['name', 'values'],
+        },
+      },
+    } : {}),
+    dateFrom: { type: 'string', description: 'First date to include, YYYY-MM-DD.' },
+    dateTo: { type: 'string', description: 'Last date to include, YYYY-MM-DD.' },
+    mentions: stringList('Answers whose text or English translation contains any of these words or phrases.'),
+    minConfidence: { type: 'number', description: 'Minimum classification confidence, 0-100.' },
+  },
+});
+
+/** The tools offered to the chat model; `dimensions` are the columns it may filter and group by. */
+export const queryTools = (dimensions: string[]): LlmTool[] => {
+  const fields = [...BUILT_IN_FIELDS, ...dimensions];
+  return [
+    {
+      name: 'count_answers',
+      description: 'Counts the answers matching a filter, and their share of all answers in the current view.',
+      parameters: { type: 'object', properties: { filter: filterSchema(dimensions) } },
+    },
+    {
+      name: 'group_by',
+      description: 'Counts the answers matching a filter per value of a field, most common first, optionally broken down by a second field.',
+      parameters: {
+        type: 'object',
+        properties: {
+          filter: filterSchema(dimensions),
+          by: { type: 'string', enum: fields },
+          breakdownBy: { type: 'string', enum: fields, description: 'Second field to count within each group.' },
+          limit: { type: 'integer', description: `Most groups to return, at most ${MAX_GROUPS}. Defaults to 25.` },
+        },
+        required: ['by'],
+      },
+    },
+    {
+      name: 'time_series',
+      description: 'Counts the dated answers matching a filter per day, week or month, optionally per value of a field.',
+      parameters: {
+        type: 'object',
+        properties: {
+          filter: filterSchema(dimensions),
+          period: { type: 'string', enum: ['day', 'week', 'month'] },
+          by: { type: 'string', enum: fields, description: 'Field to count within each period.' },
+        },
+        required: ['period'],
+      },
+    },
+    {
+      name: 'sample_verbatims',
+      description: 'Returns example answers matching a filter, with their row ids and classification, to quote as evidence.',
+      parameters: {
+        type: 'object',
+        properties: {
+          filter: filterSchema(dimensions),
+          limit: { type: 'integer', description: `Number of answers, at most ${MAX_SAMPLES}. Defaults to 10.` },
+        },
+      },
+    },
+  ];
+}
+
+const valueList = (values: unknown): string[] | null =>
+  Array.isArray(values) && values.length > 0 ? values.map(value => String(value)) : null;
+
+const parseDate = (value: unknown, endOfDay: boolean): Date | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = dateOnly ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date "${value}"; use YYYY-MM-DD.`);
+  // A plain end date covers the whole day.
+  return endOfDay && dateOnly ? new Date(timeDay.offset(date, 1).getTime() - 1) : date;
+}
+
+/**
+ * Answers matching a filter. Values match exactly, as in the dashboard
+ * filters; unknown dimension names are an error, so the model can correct itself.
+ */
+export const applyQueryFilter = (answers: AnalysisResult[], filter: QueryFilter | undefined, context: QueryToolContext): AnalysisResult[] => {
+  if (!filter) return answers;
+  const conditions: { field: string; values: string[] }[] = [];
+  BUILT_IN_FIELDS.forEach(field => {
+    const values = valueList(filter[field as keyof QueryFilter]);
+    if (values) conditions.push({ field, values });
+  });
+  (filter.dimensions ?? []).forEach(({ name, values }) => {
+    if (!context.dimensions.includes(name)) throw new Error(`Unknown dimension "${name}". Available: ${context.dimensions.join(', ') || 'none'}.`);
+    const list = valueList(values);
+    if (list) conditions.push({ field: name, values: list });
+  });
+  const from = parseDate(filter.dateFrom, false);
+  const until = parseDate(filter.dateTo, true);
+  const mentions = (valueList(filter.mentions) ?? []).map(term => term.toLowerCase());
+  const minConfidence = typeof filter.minConfidence === 'number' ? filter.minConfidence : null;
+
+  return answers.filter(answer => {
+    if (!conditions.every(({ field, values }) => fieldValues(answer, field).some(value => values.includes(value)))) return false;
+    if (!inDateRange(answer, from, until)) return false;
+    if (minConfidence !== null && (answer.analysis?.confidence ?? -1) < minConfidence) return false;
+    if (mentions.length > 0) {
+      const text = `${context.textOf(answer)} ${answer.analysis?.translation ?? ''}`.toLowerCase();
+      if (!mentions.some(term => text.includes(term))) return false;
+    }
+    return true;
+  });
+}
+
+const share = (count: number, total: number) => total > 0 ? Math.round(count / total * 1000) / 10 : 0;
+
+const clamp = (value: unknown, fallback: number, max: number) =>
+  Math.max(1, Math.min(max, typeof value === 'number' && value > 0 ? Math.floor(value) : fallback));
+
+const requireField = (field: unknown, context: QueryToolContext): string => {
+  if (typeof field !== 'string' || ![...BUILT_IN_FIELDS, ...context.dimensions].includes(field)) {
+    throw new Error(`Unknown field "${field}". Available: ${[...BUILT_IN_FIELDS, ...context.dimensions].join(', ')}.`);
+  }
+  return field;
+}
+
+const formatPeriod = timeFormat('%Y-%m-%d');
+
+const runQueryTool = (call: LlmToolCall, answers: AnalysisResult[], context: QueryToolContext): { result: unknown; summary: string } => {
+  try {
+    const args = call.args ?? {};
+    const matching = applyQueryFilter(answers, args['filter'], context);
+    const total = answers.length;
+    switch (call.name) {
+      case 'count_answers':
+        return {
+          result: { count: matching.length, total, sharePercent: share(matching.length, total) },
+          summary: `${matching.length.toLocaleString()} of ${total.toLocaleString()} answers`,
+        };
+      case 'group_by': {
+        const by = requireField(args['by'], context);
+        const breakdownBy = args['breakdownBy'] ? requireField(args['breakdownBy'], context) : null;
+        const groups = countField(matching, by).slice(0, clamp(args['limit'], 25, MAX_GROUPS)).map(([value, count]) => ({
+          value,
+          count,
+          sharePercent: share(count, matching.length),
+          ...(breakdownBy ? {
+            breakdown: countField(matching.filter(a => fieldValues(a, by).includes(value)), breakdownBy)
+              .map(([inner, innerCount]) => ({ value: inner, count: innerCount, sharePercent: share(innerCount, count) })),
+          } : {}),
+        }));
+        return { result: { matching: matching.length, total, groups }, summary: `${groups.length} groups over ${matching.length.toLocaleString()} answers` };
+      }
+      case 'time_series': {
+        const period = args['period'] as TrendPeriod;
+        if (!['day', 'week', 'month'].includes(period)) throw new Error(`Unknown period "${period}". Use day, week or month.`);
+        const by = args['by'] ? requireField(args['by'], context) : null;
+        // Same buckets as the dashboard's trend chart, which only counts classified, dated answers.
+        const trend = buildTrendData(matching, by ?? 'sentiment', period);
+        const series = (trend?.dates ?? []).map((date, i) => ({
+          period: formatPeriod(date),
+          count: trend!.totals[i],
+          ...(by ? { counts: Object.fromEntries(trend!.keys.map(key => [key, trend!.stackedData[i][key]]).filter(([, count]) => count > 0)) } : {}),
+        }));
+        const counted = series.reduce((sum, entry) => sum + entry.count, 0);
+        return {
+          result: { matching: matching.length, undatedOrUnclassified: matching.length - counted, period, series },
+          summary: `${series.length} ${period}s over ${counted.toLocaleString()} dated answers`,
+        };
+      }
+      case 'sample_verbatims': {
+        const samples = matching.filter(a => context.textOf(a)).slice(0, clamp(args['limit'], 10, MAX_SAMPLES)).map(answer => {
+          const text = context.textOf(answer);
+          return {
+            row: answer.rowId,
+            ...(answer.question ? { question: answer.question } : {}),
+            text: text.length > SAMPLE_CHARS ? `${text.slice(0, SAMPLE_CHARS)}…` : text,
+            ...(answer.analysis?.translation && answer.analysis.translation !== text ? { translation: answer.analysis.translation.slice(0, SAMPLE_CHARS) } : {}),
+            ...(answer.date ? { date: formatPeriod(answer.date) } : {}),
+            sentiment: answer.analysis?.sentiment,
+            intent: answer.analysis?.intent,
+            topics: answer.analysis?.topics,
+            confidence: answer.analysis?.confidence,
+          };
+        });
+        return { result: { matching: matching.length, samples }, summary: `${samples.length} of ${matching.length.toLocaleString()} matching answers` };
+      }
+      default:
+        throw new Error(`Unknown tool "${call.name}".`);
+    }
+  } catch (err: any) {
+    return { result: { error: err?.message || String(err) }, summary: `Failed: ${err?.message || err}` };
+  }
+}
+
+/** One line for the chat transcript, e.g. `group_by topic where sentiment = negative; region = West`. */
+const describeQuery = (call: LlmToolCall): string => {
+  const args = call.args ?? {};
+  const filter: QueryFilter = args['filter'] ?? {};
+  const conditions = [
+    ...BUILT_IN_FIELDS
+      .filter(field => Array.isArray(filter[field as keyof QueryFilter]) && (filter[field as keyof QueryFilter] as string[]).length > 0)
+      .map(field => `${field} = ${(filter[field as keyof QueryFilter] as string[]).join(' or ')}`),
+    ...(filter.dimensions ?? []).map(d => `${d.name} = ${(d.values ?? []).join(' or ')}`),
+    ...(filter.mentions?.length ? [`mentions ${filter.mentions.map(m => `"${m}"`).join(' or ')}`] : []),
+    ...(filter.dateFrom ? [`from ${filter.dateFrom}`] : []),
+    ...(filter.dateTo ? [`until ${filter.dateTo}`] : []),
+    ...(typeof filter.minConfidence === 'number' ? [`confidence ≥ ${filter.minConfidence}`] : []),
+  ];
+  const target = [
+    call.name === 'time_series' ? `per ${args['period']}` : '',
+    args['by'] ? `${call.name === 'group_by' ? '' : 'by '}${args['by']}` : '',
+    args['breakdownBy'] ? `then ${args['breakdownBy']}` : '',
+  ].filter(Boolean).join(' ');
+  return [call.name, target, conditions.length > 0 ? `where ${conditions.join('; ')}` : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Runs one tool call over `answers` (the dashboard's filtered answers). Shares
+ * are percentages with one decimal. Invalid arguments produce an `error`
+ * result rather than an exception, so the model can retry.
+ */
+export const executeQueryTool = (call: LlmToolCall, answers: AnalysisResult[], context: QueryToolContext): { result: unknown; query: ExecutedQuery } => {
+  const { result, summary } = runQueryTool(call, answers, context);
+  return { result, query: { tool: call.name, args: call.args ?? {}, description: describeQuery(call), summary } };
+}
+
+/** What the model needs to plan queries: the fields, their values and the date range of the current view. */
+export const describeQueryData = (answers: AnalysisResult[], context: QueryToolContext) => {
+  const values = (field: string, limit: number) => countField(answers, field).slice(0, limit).map(([value]) => value);
+  const { minDate, maxDate } = dateRange(answers);
+  return {
+    answers: answers.length,
+    classified: answers.filter(a => a.analysis).length,
+    values: {
+      sentiment: values('sentiment', 10),
+      intent: values('intent', 20),
+      topic: values('topic', 50),
+      subTopic: values('subTopic', 100),
+      emotion: values('emotion', 20),
+      language: values('language', 20),
+      ...(answers.some(a => a.question) ? { question: values('question', 20) } : {}),
+    },
+    dimensions: Object.fromEntries(context.dimensions.map(dimension => [dimension, values(dimension, 25)])),
+    dates: minDate && maxDate ? { from: formatPeriod(minDate), to: formatPeriod(maxDate) } : null,
+  };
+}
+
+export type QueryDataDescription = ReturnType<typeof describeQueryData>;
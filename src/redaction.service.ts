@@ -0,0 +1,90 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { DEFAULT_REDACTION_SETTINGS, RedactionCounts, RedactionSettings, createRedactor } from './redaction';
+
+const SETTINGS_KEY = 'surveylens.redaction';
+
+export interface RedactionReport {
+  textsScanned: number;
+  textsRedacted: number;
+  counts: RedactionCounts;
+}
+
+const EMPTY_REPORT: RedactionReport = { textsScanned: 0, textsRedacted: 0, counts: {} };
+
+/**
+ * Local, rule-based PII redaction for everything sent to the AI provider.
+ * Rules, names and custom patterns are remembered in localStorage; the
+ * never-send columns belong to the current file. The report tallies what was
+ * masked since it was last reset.
+ */
+@Injectable({ providedIn: 'root' })
+export class RedactionService {
+  settings = signal<RedactionSettings>(this.loadSettings());
+  neverSendColumns = signal<string[]>([]);
+  report = signal<RedactionReport>(EMPTY_REPORT);
+  private redactor = computed(() => createRedactor(this.settings()));
+
+  private loadSettings(): RedactionSettings {
+    try {
+      const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+      return saved ? { ...DEFAULT_REDACTION_SETTINGS, ...saved, rules: { ...DEFAULT_REDACTION_SETTINGS.rules, ...saved.rules } } : DEFAULT_REDACTION_SETTINGS;
+    } catch {
+      return DEFAULT_REDACTION_SETTINGS;
+    }
+  }
+
+  setSettings(settings: RedactionSettings) {
+    this.settings.set(settings);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  resetReport() {
+    this.report.set(EMPTY_REPORT);
+  }
+
+  /** Redacts each text and adds the matches to the report. */
+  redactAll(texts: string[]): string[] {
+    const redact = this.redactor();
+    const report = this.report();
+    const counts = { ...report.counts };
+    let textsRedacted = 0;
+    const redacted = texts.map(text => {
+      const result = redact(text || '');
+      const labels = Object.keys(result.counts);
+      if (labels.length > 0) textsRedacted++;
+      labels.forEach(label => counts[label] = (counts[label] || 0) + result.counts[label]);
+      return result.text;
+    });
+    this.report.set({ textsScanned: report.textsScanned + texts.length, textsRedacted: report.textsRedacted + textsRedacted, counts });
+    return redacted;
+  }
+
+  /**
+   * Copies of the records that are safe to embed in a prompt: never-send
+   * columns are dropped and every string value, at any depth, is redacted.
+   */
+  sanitizeRecords<T extends object>(records: T[]): Partial<T>[] {
+    const neverSend = new Set(this.neverSendColumns());
+    const strings: string[] = [];
+    const collect = (value: any): void => {
+      if (typeof value === 'string') strings.push(value);
+      else if (Array.isArray(value)) value.forEach(collect);
+      else if (value && Object.getPrototypeOf(value) === Object.prototype) Object.values(value).forEach(collect);
+    };
+    const kept = records.map(record =>
+      Object.fromEntries(Object.entries(record).filter(([key]) => !neverSend.has(key))));
+    kept.forEach(collect);
+
+    const redacted = this.redactAll(strings);
+    let next = 0;
+    const rebuild = (value: any): any => {
+      if (typeof value === 'string') return redacted[next++];
+      if (Array.isArray(value)) return value.map(rebuild);
+      if (value && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, rebuild(inner)]));
+      }
+      return value;
+    };
+    return kept.map(rebuild);
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REDACTION_SETTINGS, RedactionSettings, compileCustomPattern, createRedactor, validateRedactionSettings } from './redaction';
+
+const redact = (text: string, changes: Partial<RedactionSettings> = {}) =>
+  createRedactor({ ...DEFAULT_REDACTION_SETTINGS, ...changes })(text);
+
+describe('createRedactor', () => {
+  it('masks contact details and counts them per rule', () => {
+    const { text, counts } = redact('Mail jane.doe@example.com or call +44 20 7946 0958, IBAN GB82 WEST 1234 5698 7654 32.');
+    expect(text).toBe('Mail [EMAIL] or call [PHONE], IBAN [IBAN].');
+    expect(counts).toEqual({ 'Email addresses': 1, 'Phone numbers': 1, 'IBANs': 1 });
+  });
+
+  it('only treats numbers passing the Luhn check as cards', () => {
+    expect(redact('Card 4111 1111 1111 1111 declined').text).toBe('Card [CARD] declined');
+    expect(redact('Order 1234567812345678 missing').text).toBe('Order [ID] missing');
+  });
+
+  it('leaves dates and short numbers alone', () => {
+    expect(redact('Ordered on 2024-03-15, 3 items for 42 euros').text).toBe('Ordered on 2024-03-15, 3 items for 42 euros');
+  });
+
+  it('masks names as whole words and applies custom patterns', () => {
+    const { text, counts } = redact('Ann at Annex store, ticket TK-99', {
+      names: ['Ann'],
+      customPatterns: [{ label: 'Ticket', pattern: 'TK-\\d+' }],
+    });
+    expect(text).toBe('[NAME] at Annex store, ticket [TICKET]');
+    expect(counts).toEqual({ 'Names': 1, 'Ticket': 1 });
+  });
+
+  it('skips disabled rules and invalid custom patterns', () => {
+    const { text } = redact('jane@example.com (', {
+      rules: { ...DEFAULT_REDACTION_SETTINGS.rules, email: false },
+      customPatterns: [{ label: 'Broken', pattern: '(' }],
+    });
+    expect(text).toBe('jane@example.com (');
+  });
+});
+
+describe('validateRedactionSettings', () => {
+  it('reports empty, invalid and empty-matching patterns', () => {
+    const problems = validateRedactionSettings({
+      ...DEFAULT_REDACTION_SETTINGS,
+      customPatterns: [
+        { label: 'Blank', pattern: ' ' },
+        { label: 'Broken', pattern: '[a-' },
+        { label: 'Anything', pattern: 'x*' },
+        { label: 'Fine', pattern: 'x+' },
+      ],
+    });
+    expect(problems).toHaveLength(3);
+    expect(problems[0]).toBe('Pattern "Blank" is empty.');
+    expect(problems[1]).toMatch(/^Invalid pattern "\[a-"/);
+    expect(problems[2]).toBe('Pattern "Anything" matches empty text.');
+  });
+
+  it('compiles custom patterns case-insensitively', () => {
+    expect(compileCustomPattern('abc').test('ABC')).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+export type BuiltInRedactionRule = 'email' | 'iban' | 'card' | 'national-id' | 'phone' | 'id-number';
+
+export const BUILT_IN_REDACTION_RULES: { id: BuiltInRedactionRule; label: string; token: string }[] = [
+  { id: 'email', label: 'Email addresses', token: '[EMAIL]' },
+  { id: 'iban', label: 'IBANs', token: '[IBAN]' },
+  { id: 'card', label: 'Payment card numbers', token: '[CARD]' },
+  { id: 'national-id', label: 'Social security numbers (123-45-6789)', token: '[NATIONAL_ID]' },
+  { id: 'phone', label: 'Phone numbers', token: '[PHONE]' },
+  { id: 'id-number', label: 'Account, order and customer IDs (6+ digits)', token: '[ID]' },
+];
+
+export interface CustomRedactionPattern {
+  label: string;
+  pattern: string; // Regular expression source, matched case-insensitively
+}
+
+export interface RedactionSettings {
+  rules: { [rule in BuiltInRedactionRule]: boolean };
+  names: string[]; // Names of people, products or places to mask wherever they appear
+  customPatterns: CustomRedactionPattern[];
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  rules: { 'email': true, 'iban': true, 'card': true, 'national-id': true, 'phone': true, 'id-number': true },
+  names: [],
+  customPatterns: [],
+};
+
+// Matches per rule label, e.g. { 'Email addresses': 3 }.
+export type RedactionCounts = { [label: string]: number };
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+/** Luhn checksum, so order numbers of card length are not mistaken for cards. */
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = +digits[digits.length - 1 - i];
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+interface CompiledRule {
+  label: string;
+  token: string;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+const DATE_SHAPE = /^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+
+// Applied in this order: a card number must be masked before the phone rule sees its digit groups.
+const BUILT_IN_PATTERNS: { [rule in BuiltInRedactionRule]: Omit<CompiledRule, 'label' | 'token'> } = {
+  'email': { pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}.-]+\.\p{L}{2,}/gu },
+  'iban': { pattern: /\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]{4}){2,7}(?:[ ]?[A-Z0-9]{1,3})?\b/g },
+  'card': { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: match => passesLuhn(digitsOf(match)) },
+  'national-id': { pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  'phone': {
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,5}\)[\s.-]?)?\d{2,5}(?:[\s.-]?\d{2,5}){1,4}/g,
+    accept: match => {
+      const digits = digitsOf(match).length;
+      const value = match.trim();
+      return digits >= 7 && digits <= 15 && /[\s.()+-]/.test(value) && !DATE_SHAPE.test(value);
+    },
+  },
+  'id-number': { pattern: /\b[A-Z]{0,3}\d{6,}\b/gi },
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Throws with a readable message if `pattern` is not a valid regular expression. */
+export const compileCustomPattern = (pattern: string): RegExp => {
+  try {
+    return new RegExp(pattern, 'giu');
+  } catch (err: any) {
+    throw new Error(`Invalid pattern "${pattern}": ${err?.message || 'syntax error'}`);
+  }
+}
+
+/** Problems that would stop the settings from being applied, e.g. invalid custom patterns. */
+export const validateRedactionSettings = (settings: RedactionSettings): string[] =>
+  settings.customPatterns.flatMap(custom => {
+    if (!custom.pattern.trim()) return [`Pattern "${custom.label || 'unnamed'}" is empty.`];
+    try {
+      const regex = compileCustomPattern(custom.pattern);
+      return regex.test('') ? [`Pattern "${custom.label || custom.pattern}" matches empty text.`] : [];
+    } catch (err: any) {
+      return [err.message];
+    }
+  });
+
+/**
+ * A deterministic, rule-based redactor. Each match is replaced by a token
+ * such as [EMAIL]; tokens contain no digits or names, so later rules never
+ * match inside them. Invalid custom patterns are skipped.
+ */
+export const createRedactor = (settings: RedactionSettings) => {
+  const rules: CompiledRule[] = BUILT_IN_REDACTION_RULES
+    .filter(rule => settings.rules[rule.id])
+    .map(rule => ({ label: rule.label, token: rule.token, ...BUILT_IN_PATTERNS[rule.id] }));
+
+  const names = settings.names.map(name => name.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (names.length > 0) {
+    rules.push({ label: 'Names', token: '[NAME]', pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu') });
+  }
+  settings.customPatterns.forEach(custom => {
+    if (validateRedactionSettings({ ...settings, customPatterns: [custom] }).length > 0) return;
+    const label = custom.label.trim() || custom.pattern;
+    rules.push({ label, token: `[${label.toUpperCase().replace(/[^A-Z]+/g, '_').replace(/^_|_$/g, '') || 'REDACTED'}]`, pattern: compileCustomPattern(custom.pattern) });
+  });
+
+  return (text: string): { text: string; counts: RedactionCounts } => {
+    const counts: RedactionCounts = {};
+    let result = text;
+    rules.forEach(rule => {
+      result = result.replace(rule.pattern, match => {
+        if (rule.accept && !rule.accept(match)) return match;
+        counts[rule.label] = (counts[rule.label] || 0) + 1;
+        return rule.token;
+      });
+    });
+    return { text: result, counts };
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { randomSample, stratifiedSample } from './sampling';
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+describe('randomSample', () => {
+  it('picks distinct items and keeps their order', () => {
+    const sample = randomSample(range(100), 10);
+    expect(sample).toHaveLength(10);
+    expect(new Set(sample).size).toBe(10);
+    expect([...sample].sort((a, b) => a - b)).toEqual(sample);
+  });
+
+  it('clamps the size to the input', () => {
+    expect(randomSample([1, 2, 3], 10)).toEqual([1, 2, 3]);
+    expect(randomSample([1, 2, 3], -1)).toEqual([]);
+  });
+});
+
+describe('stratifiedSample', () => {
+  it('samples strata in proportion to their size', () => {
+    const items = range(100);
+    const sample = stratifiedSample(items, 10, i => (i < 70 ? 'a' : i < 90 ? 'b' : 'c'));
+    expect(sample.filter(i => i < 70)).toHaveLength(7);
+    expect(sample.filter(i => i >= 70 && i < 90)).toHaveLength(2);
+    expect(sample.filter(i => i >= 90)).toHaveLength(1);
+  });
+
+  it('gives an empty stratum an item before the largest remainder', () => {
+    const items = range(100);
+    // Quotas 3.6, 0.2 and 0.2: plain rounding would give all four to 'a'.
+    const sample = stratifiedSample(items, 4, i => (i < 90 ? 'a' : i < 95 ? 'b' : 'c'));
+    expect(sample).toHaveLength(4);
+    expect(sample.filter(i => i < 90)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Returns `size` items chosen uniformly at random without replacement, in
+ * their original order. A partial Fisher-Yates shuffle over indexes means
+ * only `size` swaps are needed however large the input is.
+ */
+export const randomSample = <T>(items: T[], size: number): T[] => {
+  const count = Math.max(0, Math.min(size, items.length));
+  const indexes = items.map((_, i) => i);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (indexes.length - i));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  return indexes.slice(0, count).sort((a, b) => a - b).map(i => items[i]);
+}
+
+/**
+ * Samples each stratum in proportion to its share of the input (largest
+ * remainder rounding), giving every stratum at least one item while the
+ * budget allows so small segments are not left out of the preview.
+ */
+export const stratifiedSample = <T>(items: T[], size: number, stratumOf: (item: T) => string): T[] => {
+  const count = Math.max(0, Math.min(size, items.length));
+  const strata = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = stratumOf(item) || '';
+    if (!strata.has(key)) strata.set(key, []);
+    strata.get(key)!.push(item);
+  });
+
+  const groups = Array.from(strata.values()).sort((a, b) => b.length - a.length);
+  const exact = groups.map(group => (group.length / items.length) * count);
+  const quotas = exact.map(Math.floor);
+  let remaining = count - quotas.reduce((a, b) => a + b, 0);
+  // Empty strata first, then the largest fractional parts.
+  const order = groups.map((_, i) => i).sort((a, b) =>
+    (quotas[a] === 0 ? 0 : 1) - (quotas[b] === 0 ? 0 : 1) || (exact[b] - quotas[b]) - (exact[a] - quotas[a]));
+  for (const i of order) {
+    if (remaining <= 0) break;
+    if (quotas[i] < groups[i].length) {
+      quotas[i]++;
+      remaining--;
+    }
+  }
+
+  const chosen = new Set(groups.flatMap((group, i) => randomSample(group, quotas[i])));
+  return items.filter(item => chosen.has(item));
+}
@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { AnalysisResult, ChatMessage } from './gemini.service';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+import { Taxonomy } from './taxonomy';
+import { PreprocessOptions } from './preprocessing';
+import { ChatMemory, ChatTranscript } from './chat-memory';
+
+export type SessionStatus = 'analyzing' | 'stopped' | 'completed';
+
+export interface AnalysisSession {
+  id: string;
+  fileName: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // 'analyzing' on a stored session means the tab closed mid-run.
+  status: SessionStatus;
+  rawCsvData: string[][];
+  mappedTextColumn: string; // The primary question, i.e. mappedTextColumns[0]
+  mappedTextColumns?: string[]; // Missing in sessions saved before several text columns could be analyzed
+  mappedDateColumn: string;
+  mappedDimensionColumns: string[];
+  neverSendColumns?: string[]; // Columns withheld from every AI request
+  taxonomy?: Taxonomy;
+  // Rows picked for a preview run; null or absent means the whole file.
+  sampleRowIds?: number[] | null;
+  preprocessOptions?: PreprocessOptions;
+  analyzedCount: number;
+  chatHistory: ChatMessage[];
+  // Missing in sessions saved before chat memory and transcripts.
+  chatMemory?: ChatMemory;
+  chatTranscripts?: ChatTranscript[];
+  activeTranscriptId?: string | null;
+  executiveSummary: string;
+}
+
+type StoredResult = AnalysisResult & { sessionId: string };
+
+/**
+ * Persists analysis sessions to IndexedDB. Session metadata and the uploaded
+ * data live in `sessions`; each AnalysisResult is written to `results` as soon
+ * as it arrives so an interrupted run loses at most the requests in flight.
+ * Deleting a session also drops its search embeddings (see EmbeddingService).
+ */
+@Injectable({ providedIn: 'root' })
+export class SessionStoreService {
+
+  /** All sessions, newest first; `analyzedCount` is counted from the stored results so interrupted runs are current. */
+  async listSessions(): Promise<AnalysisSession[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(['sessions', 'results']);
+    const sessions = await promisifyRequest<AnalysisSession[]>(tx.objectStore('sessions').getAll());
+    const bySession = tx.objectStore('results').index('sessionId');
+    const counts = await Promise.all(sessions.map(session => promisifyRequest<number>(bySession.count(session.id))));
+    return sessions
+      .map((session, i) => ({ ...session, analyzedCount: counts[i] }))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getSession(id: string): Promise<AnalysisSession | undefined> {
+    const db = await openDatabase();
+    return promisifyRequest<AnalysisSession | undefined>(db.transaction('sessions').objectStore('sessions').get(id));
+  }
+
+  async saveSession(session: AnalysisSession): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction('sessions', 'readwrite');
+    tx.objectStore('sessions').put({ ...session, updatedAt: new Date() });
+    await transactionDone(tx);
+  }
+
+  /** Applies a partial update to a stored session; a no-op if it has been deleted. */
+  async updateSession(id: string, changes: Partial<AnalysisSession>): Promise<void> {
+    const session = await this.getSession(id);
+    if (!session) return;
+    await this.saveSession({ ...session, ...changes });
+  }
+
+  async saveResult(sessionId: string, result: AnalysisResult): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction('results', 'readwrite');
+    tx.objectStore('results').put({ ...result, sessionId });
+    await transactionDone(tx);
+  }
+
+  async getResults(sessionId: string): Promise<AnalysisResult[]> {
+    const db = await openDatabase();
+    const index = db.transaction('results').objectStore('results').index('sessionId');
+    const stored = await promisifyRequest<StoredResult[]>(index.getAll(sessionId));
+    return stored.map(({ sessionId: _, ...result }) => result as AnalysisResult).sort((a, b) => a.rowId - b.rowId);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(['sessions', 'results', 'embeddings'], 'readwrite');
+    tx.objectStore('sessions').delete(id);
+    tx.objectStore('results').delete(IDBKeyRange.bound([id, -Infinity], [id, Infinity]));
+    tx.objectStore('embeddings').delete(IDBKeyRange.bound([id, -Infinity], [id, Infinity]));
+    await transactionDone(tx);
+  }
+}
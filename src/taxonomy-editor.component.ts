@@ -0,0 +1,80 @@
+import { Component, ChangeDetectionStrategy, computed, inject, model, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DEFAULT_TAXONOMY, Taxonomy, cloneTaxonomy, parseTaxonomyJson, validateTaxonomy } from './taxonomy';
+import { TaxonomyService } from './taxonomy.service';
+
+@Component({
+  selector: 'app-taxonomy-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './taxonomy-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class TaxonomyEditorComponent {
+  private taxonomyService = inject(TaxonomyService);
+
+  taxonomy = model.required<Taxonomy>();
+  presets = this.taxonomyService.presets;
+  defaultTaxonomyName = DEFAULT_TAXONOMY.name;
+  importError = signal('');
+  problems = computed(() => validateTaxonomy(this.taxonomy()));
+
+  // Every edit produces a new object so the parent's signal notifies its dependents.
+  private edit = (mutate: (draft: Taxonomy) => void) => {
+    const draft = cloneTaxonomy(this.taxonomy());
+    mutate(draft);
+    this.taxonomy.set(draft);
+  }
+
+  private valueOf = (event: Event) => (event.target as HTMLInputElement).value;
+
+  setName = (event: Event) => this.edit(t => { t.name = this.valueOf(event); });
+
+  addTopic = () => this.edit(t => { t.topics.push({ name: '', description: '', subTopics: [] }); });
+  removeTopic = (index: number) => this.edit(t => { t.topics.splice(index, 1); });
+  updateTopic = (index: number, field: 'name' | 'description', event: Event) =>
+    this.edit(t => { t.topics[index][field] = this.valueOf(event); });
+
+  addSubTopic = (topicIndex: number) => this.edit(t => { t.topics[topicIndex].subTopics.push({ name: '', description: '' }); });
+  removeSubTopic = (topicIndex: number, subIndex: number) => this.edit(t => { t.topics[topicIndex].subTopics.splice(subIndex, 1); });
+  updateSubTopic = (topicIndex: number, subIndex: number, field: 'name' | 'description', event: Event) =>
+    this.edit(t => { t.topics[topicIndex].subTopics[subIndex][field] = this.valueOf(event); });
+
+  loadPreset = (event: Event) => {
+    const name = (event.target as HTMLSelectElement).value;
+    const preset = name === DEFAULT_TAXONOMY.name ? DEFAULT_TAXONOMY : this.presets().find(p => p.name === name);
+    if (preset) this.taxonomy.set(cloneTaxonomy(preset));
+  }
+
+  savePreset = () => this.taxonomyService.savePreset(this.taxonomy());
+  deletePreset = () => this.taxonomyService.deletePreset(this.taxonomy().name);
+
+  exportJson = () => {
+    const blob = new Blob([JSON.stringify(this.taxonomy(), null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.setAttribute('href', URL.createObjectURL(blob));
+    link.setAttribute('download', `${this.taxonomy().name || 'taxonomy'}.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+
+  importJson = (event: Event) => {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        this.taxonomy.set(parseTaxonomyJson(reader.result as string));
+        this.importError.set('');
+      } catch (err: any) {
+        this.importError.set(`Could not import taxonomy: ${err.message}`);
+      } finally {
+        input.value = '';
+      }
+    };
+    reader.readAsText(file);
+  }
+}
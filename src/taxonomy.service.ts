@@ -0,0 +1,33 @@
+import { Injectable, signal } from '@angular/core';
+import { Taxonomy, cloneTaxonomy } from './taxonomy';
+
+const PRESETS_KEY = 'surveylens.taxonomyPresets';
+
+/** Named taxonomy presets, stored in localStorage so they are available across sessions. */
+@Injectable({ providedIn: 'root' })
+export class TaxonomyService {
+  presets = signal<Taxonomy[]>(this.loadPresets());
+
+  private loadPresets(): Taxonomy[] {
+    try {
+      return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(presets: Taxonomy[]) {
+    this.presets.set(presets);
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  }
+
+  /** Saves under the taxonomy's name, replacing an existing preset with the same name. */
+  savePreset(taxonomy: Taxonomy) {
+    const preset = cloneTaxonomy(taxonomy);
+    this.persist([...this.presets().filter(p => p.name !== preset.name), preset]);
+  }
+
+  deletePreset(name: string) {
+    this.persist(this.presets().filter(p => p.name !== name));
+  }
+}
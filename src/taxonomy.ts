@@ -0,0 +1,157 @@
+export interface TaxonomyNode {
+  name: string;
+  description: string;
+  // Example verbatims, filled in when the taxonomy was proposed by topic discovery.
+  examples?: string[];
+}
+
+export interface TaxonomyTopic extends TaxonomyNode {
+  subTopics: TaxonomyNode[];
+}
+
+/** Two-level topic hierarchy used for classification: main topics with optional sub-topics. */
+export interface Taxonomy {
+  name: string;
+  topics: TaxonomyTopic[];
+}
+
+const node = (name: string): TaxonomyNode => ({ name, description: '' });
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  name: 'E-commerce (default)',
+  topics: [
+    {
+      name: 'Product Experience', description: '', subTopics: [
+        'Product quality or durability issues',
+        'Product not matching description/image',
+        'Wrong or missing item received',
+        'Product packaging quality',
+        'Product variety or availability'
+      ].map(node)
+    },
+    {
+      name: 'Delivery & Logistics', description: '', subTopics: [
+        'Delivery speed',
+        'Delivery tracking accuracy',
+        'Delivery person behavior',
+        'Package condition',
+        'Wrong or partial delivery'
+      ].map(node)
+    },
+    {
+      name: 'Return, Refund & Replacement', description: '', subTopics: [
+        'Return pickup experience',
+        'Refund processing time',
+        'Replacement process',
+        'Policy clarity',
+        'Communication during refund'
+      ].map(node)
+    },
+    {
+      name: 'Customer Service / Support', description: '', subTopics: [
+        'Issue resolution',
+        'Response time',
+        'Agent politeness',
+        'Difficulty reaching support',
+        'Escalation handling'
+      ].map(node)
+    },
+    {
+      name: 'Pricing & Offers', description: '', subTopics: [
+        'Price fairness',
+        'Discounts or coupons',
+        'Hidden charges',
+        'Value for money'
+      ].map(node)
+    },
+    {
+      name: 'Website / App Usability', description: '', subTopics: [
+        'Ease of browsing',
+        'Search and filter accuracy',
+        'Checkout or payment process',
+        'App performance issues',
+        'Account management'
+      ].map(node)
+    },
+    {
+      name: 'Order & Inventory Management', description: '', subTopics: [
+        'Out of stock issues',
+        'Order cancellation',
+        'Inventory accuracy',
+        'Pre-order delays'
+      ].map(node)
+    },
+    {
+      name: 'Overall Experience & Brand Trust', description: '', subTopics: [
+        'Overall satisfaction',
+        'Brand trust',
+        'Recommendation likelihood',
+        'Repeat purchase intention'
+      ].map(node)
+    }
+  ]
+};
+
+export const cloneTaxonomy = (taxonomy: Taxonomy): Taxonomy => JSON.parse(JSON.stringify(taxonomy));
+
+/** Returns human-readable problems that would make the taxonomy unusable for classification. */
+export const validateTaxonomy = (taxonomy: Taxonomy): string[] => {
+  const problems: string[] = [];
+  if (taxonomy.topics.length === 0) problems.push('The taxonomy needs at least one main topic.');
+  const mainNames = new Set<string>();
+  taxonomy.topics.forEach((topic, i) => {
+    const name = topic.name.trim();
+    if (!name) problems.push(`Main topic #${i + 1} has no name.`);
+    else if (mainNames.has(name.toLowerCase())) problems.push(`Main topic "${name}" appears more than once.`);
+    mainNames.add(name.toLowerCase());
+
+    const subNames = new Set<string>();
+    topic.subTopics.forEach((sub, j) => {
+      const subName = sub.name.trim();
+      if (!subName) problems.push(`Sub-topic #${j + 1} of "${name || `#${i + 1}`}" has no name.`);
+      else if (subNames.has(subName.toLowerCase())) problems.push(`Sub-topic "${subName}" appears more than once under "${name}".`);
+      subNames.add(subName.toLowerCase());
+    });
+  });
+  return problems;
+}
+
+/** Parses and shape-checks a taxonomy exported as JSON. Throws with a readable message on bad input. */
+export const parseTaxonomyJson = (json: string): Taxonomy => {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.topics)) {
+    throw new Error('Expected a JSON object with a "topics" array.');
+  }
+  const toNode = (value: any): TaxonomyNode => ({
+    name: String(value?.name ?? ''),
+    description: String(value?.description ?? ''),
+    ...(Array.isArray(value?.examples) ? { examples: value.examples.map(String) } : {}),
+  });
+  return {
+    name: String(data.name || 'Imported taxonomy'),
+    topics: data.topics.map((topic: any) => ({
+      ...toNode(topic),
+      subTopics: Array.isArray(topic?.subTopics) ? topic.subTopics.map(toNode) : [],
+    })),
+  };
+}
+
+/** Renders the taxonomy as an indented list for classification prompts. */
+export const taxonomyToPrompt = (taxonomy: Taxonomy): string =>
+  taxonomy.topics.map(topic => [
+    `- ${topic.name}${topic.description ? `: ${topic.description}` : ''}`,
+    ...topic.subTopics.map(sub => `  - ${sub.name}${sub.description ? `: ${sub.description}` : ''}`),
+  ].join('\n')).join('\n');
+
+/**
+ * Maps model-returned topics onto the taxonomy's canonical names (ignoring case
+ * and surrounding whitespace). Returns null if the main topic is not in the
+ * taxonomy; a sub-topic that does not belong to the main topic is dropped.
+ */
+export const normalizeTopics = (topics: string[] | undefined, taxonomy: Taxonomy): string[] | null => {
+  const key = (value: string) => (value || '').trim().toLowerCase();
+  const main = taxonomy.topics.find(t => key(t.name) === key(topics?.[0] ?? ''));
+  if (!main) return null;
+  const sub = topics && topics.length > 1 ? main.subTopics.find(s => key(s.name) === key(topics[1])) : undefined;
+  return sub ? [main.name, sub.name] : [main.name];
+}